@@ -4,8 +4,13 @@
  * file, You can obtain one at https://mozilla.org/MPL/2.0/.
  */
 
-import { Gate, H, I, S, T, X, Y, Z } from "./gates";
-import { VectorEdge, QMDD } from "./qmdd";
+import { ECR, Gate, H, I, iSWAP, Measure, P, Reset, RX, RY, RZ, S, SWAP, SX, T, U, X, Y, Z } from "./gates";
+import { Angle, Parameter } from "./parameter";
+import { MatrixEdge, VectorEdge, QMDD } from "./qmdd";
+import { emitQASM, parseQASM } from "./qasm";
+import { Complex } from "./complex";
+import { drawCircuit } from "./drawer";
+import { Observable } from "./observable";
 
 /**
  * Generates a random string of the given `length`.
@@ -75,6 +80,41 @@ function sfc32 (a: number, b: number, c: number, d: number): () => number
     }
 }
 
+/**
+ * A classical condition on the register of a `QuantumCircuit`: it holds when the given classical bits
+ * read `value` in binary, with `clbits[0]` as the least significant bit.
+ */
+export type Condition = 
+{
+    readonly clbits: readonly number[],
+    readonly value: number
+};
+
+/**
+ * A single operation applied on a `QuantumCircuit`: the `gate`, the qubits it acts upon and its
+ * (possibly empty) list of `controls`, activating on `ctrlState`. Measurements also specify
+ * the classical bits they write to, and classically conditioned operations their `condition`.
+ */
+export type Instruction = 
+{ 
+    readonly gate: Gate, 
+    readonly targets: readonly number[], 
+    readonly controls: readonly number[], 
+    readonly ctrlState: string,
+    readonly clbits?: readonly number[],
+    readonly condition?: Condition
+};
+
+/**
+ * The verdict of an equivalence check between two circuits: a `counterexample` basis state is 
+ * reported when they are not equivalent.
+ */
+export type Equivalence = 
+{
+    readonly equivalent: boolean,
+    readonly counterexample?: string
+};
+
 /**
  * A quantum algorithm represented as a cascade of quantum logic gates.
  */
@@ -85,23 +125,105 @@ export class QuantumCircuit
     private diagram: VectorEdge;     // the entry `VectorEdge` of the `QMDD` diagram of `this` circuit.
 
     private cols: number;           // the number of gate columns in the circuit.
-    private qbuckets: number[];     // qubit buckets to keep track of how many columns each qubit participates in.
+    private qbuckets: number[];     // qubit buckets to keep track of the last column each qubit participates in.
+    private cbuckets: number[];     // classical bit buckets to keep track of the last column each classical bit is written (measured) in.
+    private rbuckets: number[];     // classical bit buckets to keep track of the last column each classical bit is read (conditioned upon) in.
+    private instructions: Instruction[]; // the log of all operations applied on the circuit, in order.
+
+    private bits: number[];         // the classical register, holding the outcomes of measurements.
+    private readonly seed: string;  // the seed of the PRNG, passed on to bound copies of the circuit.
+    private readonly rand: () => number; // the PRNG deciding the outcomes of measurements.
+    private deferred = false;       // whether an unbound parameter has been met, postponing simulation until binding.
 
     /**
      * Creates an empty circuit with the declared amount of qubits.
      * @param qubits The number of qubits to prepare.
+     * @param clbits (Optional) The number of classical bits to prepare, for storing measurement outcomes.
+     * @param seed (Optional) Seed for the pseudorandom number generation of measurements for determinism.
      */
-    constructor (qubits: number)
+    constructor (qubits: number, clbits: number = 0, seed?: string | number)
     {
         if (qubits < 1 || !Number.isInteger(qubits))
             throw new Error(`Error in QuantumCircuit(): Cannot create a circuit with ${qubits} qubits.`);
 
+        if (clbits < 0 || !Number.isInteger(clbits))
+            throw new Error(`Error in QuantumCircuit(): Cannot create a circuit with ${clbits} classical bits.`);
+
+        this.seed = seed?.toString() ?? randomString();
+        const [a, b, c, d] = cyrb128(this.seed);
+        this.rand = sfc32(a, b, c, d);
+        this.bits = Array(clbits).fill(0);
+
         this.qubits = qubits;
         this.terminal = QMDD.createTerminal(this.qubits);
         this.diagram = QMDD.groundState(this.terminal);
 
         this.cols = 0;
         this.qbuckets = Array(this.qubits).fill(0);
+        this.cbuckets = Array(clbits).fill(0);
+        this.rbuckets = Array(clbits).fill(0);
+        this.instructions = [];
+    }
+
+    /**
+     * Creates a new circuit from the given OpenQASM 2.0 program.
+     * 
+     * Supports `qreg`/`creg` declarations, custom `gate` definitions, `measure`, `reset` and `if` statements (over gate 
+     * calls, measurements and resets) and the `qelib1.inc` gates, `u`, `u0` and rotations included (except for the 
+     * two-qubit interactions like `rzz`). Quantum registers are laid out in order of declaration, starting from qubit 0.
+     * @param source The OpenQASM 2.0 program text.
+     * @param seed (Optional) Seed for the pseudorandom number generation of measurements for determinism.
+     * @returns The `QuantumCircuit` implementing the program.
+     */
+    public static fromQASM (source: string, seed?: string | number): QuantumCircuit
+    {
+        const { qubits, clbits, operations } = parseQASM(source);
+        const qc = new QuantumCircuit(qubits, clbits, seed);
+
+        const handler: Record<string, (q: number[], a: number[], c: number[], k?: Condition) => QuantumCircuit> = 
+        {
+            'id':      ()                            => qc,
+            'x':       ([t], _, __, k)               => qc.x(t, k),
+            'y':       ([t], _, __, k)               => qc.y(t, k),
+            'z':       ([t], _, __, k)               => qc.z(t, k),
+            'h':       ([t], _, __, k)               => qc.h(t, k),
+            's':       ([t], _, __, k)               => qc.s(t, false, k),
+            'sdg':     ([t], _, __, k)               => qc.s(t, true, k),
+            't':       ([t], _, __, k)               => qc.t(t, false, k),
+            'tdg':     ([t], _, __, k)               => qc.t(t, true, k),
+            'rx':      ([t], [theta], __, k)         => qc.rx(t, theta, k),
+            'ry':      ([t], [theta], __, k)         => qc.ry(t, theta, k),
+            'rz':      ([t], [theta], __, k)         => qc.rz(t, theta, k),
+            'p':       ([t], [lambda], __, k)        => qc.p(t, lambda, k),
+            'u':       ([t], [th, ph, la], __, k)    => qc.u(t, th, ph, la, k),
+            'cx':      ([c, t], _, __, k)            => qc.append(new X(), t, [c], "", k),
+            'cy':      ([c, t], _, __, k)            => qc.append(new Y(), t, [c], "", k),
+            'cz':      ([c, t], _, __, k)            => qc.append(new Z(), t, [c], "", k),
+            'ch':      ([c, t], _, __, k)            => qc.append(new H(), t, [c], "", k),
+            'cs':      ([c, t], _, __, k)            => qc.append(new S(), t, [c], "", k),
+            'csdg':    ([c, t], _, __, k)            => qc.append(new S(true), t, [c], "", k),
+            'ct':      ([c, t], _, __, k)            => qc.append(new T(), t, [c], "", k),
+            'ctdg':    ([c, t], _, __, k)            => qc.append(new T(true), t, [c], "", k),
+            'crx':     ([c, t], [theta], __, k)      => qc.append(new RX(theta), t, [c], "", k),
+            'cry':     ([c, t], [theta], __, k)      => qc.append(new RY(theta), t, [c], "", k),
+            'crz':     ([c, t], [theta], __, k)      => qc.append(new RZ(theta), t, [c], "", k),
+            'cp':      ([c, t], [lambda], __, k)     => qc.append(new P(lambda), t, [c], "", k),
+            'cu':      ([c, t], [th, ph, la], __, k) => qc.append(new U(th, ph, la), t, [c], "", k),
+            'ccx':     ([c1, c2, t], _, __, k)       => qc.append(new X(), t, [c2, c1], "", k),
+            'ccz':     ([c1, c2, t], _, __, k)       => qc.append(new Z(), t, [c2, c1], "", k),
+            'sx':      ([t], _, __, k)               => qc.sx(t, false, k),
+            'sxdg':    ([t], _, __, k)               => qc.sx(t, true, k),
+            'csx':     ([c, t], _, __, k)            => qc.append(new SX(), t, [c], "", k),
+            'swap':    ([a, b], _, __, k)            => qc.swap(a, b, k),
+            'cswap':   ([c, a, b], _, __, k)         => qc.cswap(c, a, b, undefined, k),
+            'measure': ([q], _, [c], k)              => qc.measure(q, c, k),
+            'reset':   ([q], _, __, k)               => qc.reset(q, k)
+        };
+
+        for (const { name, qubits, params, clbits, condition } of operations)
+            handler[name](qubits, params ?? [], clbits ?? [], condition);
+
+        return qc;
     }
 
     /**
@@ -112,9 +234,45 @@ export class QuantumCircuit
         return this.qubits;
     }
 
+    /**
+     * Returns the number of declared classical bits of the `QuantumCircuit` object.
+     */
+    public clbits (): number
+    {
+        return this.bits.length;
+    }
+
+    /**
+     * Returns the current contents of the classical register, i.e. the latest measurement outcomes.
+     * @returns The register as a bitstring, in the same notation as the basis states (classical bit 0 is the last character).
+     */
+    public register (): string
+    {
+        return [...this.bits].reverse().join('');
+    }
+
+    /**
+     * The log of all operations applied on `this` circuit so far, in order of application.
+     * 
+     * Uncontrolled steps are logged as one `Instruction` per gate, and `initialize()` restarts the log
+     * with the operations preparing the requested state.
+     */
+    public get data (): readonly Instruction[]
+    {
+        return this.instructions;
+    }
+
+    /**
+     * Iterates over the operations applied on `this` circuit so far, in order of application.
+     */
+    public [Symbol.iterator] (): Iterator<Instruction>
+    {
+        return this.instructions[Symbol.iterator]();
+    }
+
     /**
      * Returns the depth of the `QuantumCircuit` object, i.e. the current number of computational steps 
-     * defined in the algorithm.
+     * defined in the algorithm. Classically conditioned operations are counted after the measurements they read.
      */
     public depth (): number
     {
@@ -122,43 +280,164 @@ export class QuantumCircuit
     }
 
     /**
-     * Applies the passed `gate`, possibly controlled, on the specified qubit indices.
-     * @param gate The `Gate` object describing the operation to apply on the target qubit.
-     * @param target The index of the target qubit.
-     * @param controls The list of the control qubit indices. `!` Assumed in the same order as `ctrlState`. 
-     * @param ctrlState The control state to activate on. `!` Assumed in the same order as `controls`.
-     * @returns `this` circuit instance.
+     * Checks that the requested qubit indices and control state are valid for `this` circuit.
+     * @param method The name of the calling method, for error reporting.
+     * @param targets The indices of the target qubits.
+     * @param controls The list of the control qubit indices.
+     * @param ctrlState The control state to activate on. If empty, assumed all 1-controls.
+     * @returns The (possibly completed) control state.
      */
-    public append (gate: Gate, target: number, controls: number[] = [], ctrlState: string = ""): QuantumCircuit
+    private validate (method: string, targets: number[], controls: number[], ctrlState: string): string
     {
-        const temp = [target, ...controls];
+        const temp = [...targets, ...controls];
 
         if (temp.length > this.width()) throw new Error(
-            `Error in QuantumCircuit.append(): Too many qubits requested (declared width is ${this.width()} but ${temp.length} indices were received).`);
+            `Error in QuantumCircuit.${method}(): Too many qubits requested (declared width is ${this.width()} but ${temp.length} indices were received).`);
 
         for (const i of temp) if (i < 0 || i >= this.width()) throw new Error(
-            `Error in QuantumCircuit.append(): Out of bounds qubit requested (received index ${i}, expected [0, ${this.width()})).`);
+            `Error in QuantumCircuit.${method}(): Out of bounds qubit requested (received index ${i}, expected [0, ${this.width()})).`);
 
         if (new Set(temp).size < temp.length) throw new Error(
-            `Error in QuantumCircuit.append(): Duplicate qubit index detected.`);
+            `Error in QuantumCircuit.${method}(): Duplicate qubit index detected.`);
 
         if (controls.length > 0 && ctrlState === "")  // assume the nonspecified state is all 1-controls
             ctrlState = '1'.repeat(controls.length);
 
         if (controls.length !== ctrlState.length) throw new Error(
-            `Error in QuantumCircuit.append(): Unequal number of controls (${controls?.length}) and control states (${ctrlState?.length}) given.`);
+            `Error in QuantumCircuit.${method}(): Unequal number of controls (${controls?.length}) and control states (${ctrlState?.length}) given.`);
 
         if (!/^[01]*$/.test(ctrlState)) throw new Error(
-            `Error in QuantumCircuit.append(): Unrecognized character found in ctrlState, '0' or '1' were expected.`);
+            `Error in QuantumCircuit.${method}(): Unrecognized character found in ctrlState, '0' or '1' were expected.`);
+
+        return ctrlState;
+    }
+
+    /**
+     * Checks that the requested classical bit indices are valid for `this` circuit.
+     * @param method The name of the calling method, for error reporting.
+     * @param clbits The indices of the classical bits.
+     */
+    private validateClbits (method: string, clbits: readonly number[]): void
+    {
+        for (const i of clbits) if (i < 0 || i >= this.clbits() || !Number.isInteger(i)) throw new Error(
+            `Error in QuantumCircuit.${method}(): Out of bounds classical bit requested (received index ${i}, expected [0, ${this.clbits()})).`);
+    }
+
+    /**
+     * Checks that the given classical `condition` is valid for `this` circuit.
+     * @param method The name of the calling method, for error reporting.
+     * @param condition The condition to check.
+     * @returns A copy of the condition.
+     */
+    private validateCondition (method: string, condition: Condition): Condition
+    {
+        const { clbits, value } = condition;
+
+        if (clbits.length === 0) throw new Error(
+            `Error in QuantumCircuit.${method}(): A condition must involve at least one classical bit.`);
+
+        this.validateClbits(method, clbits);
+
+        if (new Set(clbits).size < clbits.length) throw new Error(
+            `Error in QuantumCircuit.${method}(): Duplicate classical bit index detected.`);
+
+        if (value < 0 || value >= 2 ** clbits.length || !Number.isInteger(value)) throw new Error(
+            `Error in QuantumCircuit.${method}(): Condition value ${value} cannot be held by ${clbits.length} classical bits.`);
+
+        return { clbits: [...clbits], value: value };
+    }
+
+    /**
+     * Checks that `this` circuit has been simulated, i.e. that it has no unbound parameters.
+     * @param method The name of the calling method, for error reporting.
+     */
+    private validateBound (method: string): void
+    {
+        if (this.deferred) throw new Error(
+            `Error in QuantumCircuit.${method}(): Cannot simulate a circuit with unbound parameters ` + 
+            `(${this.parameters().map(({ name }) => name).join(', ')}), assign them first.`);
+    }
+
+    /**
+     * Evaluates the given classical `condition` against the current contents of the classical register.
+     * @param condition The condition to evaluate. Unconditioned operations always hold.
+     * @returns `true` if the condition holds.
+     */
+    private holds (condition?: Condition): boolean
+    {
+        return condition === undefined || condition.clbits.every((c, i) => this.bits[c] === Math.floor(condition.value / 2 ** i) % 2);
+    }
+
+    /**
+     * Multiplies the described (assumed valid) operation into the diagram of `this` circuit,
+     * updating the step counters and the instruction log.
+     * @param instruction The operation to apply.
+     */
+    private apply (instruction: Instruction): void
+    {
+        const { gate, targets, controls, ctrlState, condition } = instruction;
+        const unified = controls.map((el, i) => ({ index: el, state: ctrlState.at(i)! }));
+
+        // from the first unbound parameter on, simulation is postponed until binding
+        this.deferred ||= gate.parameters().length > 0;
+
+        if (this.deferred || !this.holds(condition))
+        {
+            // the operation is deferred or its classical condition is not met, it only occupies its place in the circuit
+        }
+        else if (gate instanceof Measure)
+        {
+            // collapse the statevector and store the outcome
+            const [outcome, collapsed] = QMDD.measure(this.diagram, targets[0], this.rand, this.terminal);
+
+            this.diagram = collapsed;
+            this.bits[instruction.clbits![0]] = outcome;
+        }
+        else if (gate instanceof Reset)
+            this.diagram = QMDD.reset(this.diagram, targets[0], this.rand, this.terminal);
+        else
+            // create the gate as a QMDD and multiply it to the current statevector
+            this.diagram = QMDD.multiply(QMDD.construct(gate, [...targets], unified, this.terminal), this.diagram, this.terminal);
+
+        // update step counters: the operation occupies the first column after all its qubits are free, after the last 
+        // measurement of the classical bits it reads and, for measurements, after the last reads of the bits they write
+        const involved = [...targets, ...controls];
+        const [read, written] = [condition?.clbits ?? [], instruction.clbits ?? []];
+        const column = 1 + Math.max(
+            ...involved.map(i => this.qbuckets[i]), 
+            ...read.map(c => this.cbuckets[c]), 
+            ...written.map(c => Math.max(this.cbuckets[c], this.rbuckets[c])));
+
+        for (const i of involved) this.qbuckets[i] = column;
+        for (const c of read) this.rbuckets[c] = Math.max(this.rbuckets[c], column);
+        for (const c of written) this.cbuckets[c] = column;
+        this.cols = Math.max(this.cols, column);
+
+        this.instructions.push(instruction);
+    }
+
+    /**
+     * Applies the passed `gate`, possibly controlled, on the specified qubit indices.
+     * @param gate The `Gate` object describing the operation to apply on the target qubit(s).
+     * @param target The index of the target qubit, or the indices of the targets of a multi-qubit `gate` (in the order of `gate.matrix()`).
+     * @param controls The list of the control qubit indices. `!` Assumed in the same order as `ctrlState`. 
+     * @param ctrlState The control state to activate on. `!` Assumed in the same order as `controls`.
+     * @param condition (Optional) The classical condition to apply the gate under, evaluated against the current classical register.
+     * @returns `this` circuit instance.
+     */
+    public append (gate: Gate, target: number | number[], controls: number[] = [], ctrlState: string = "", condition?: Condition): QuantumCircuit
+    {
+        const targets = typeof target === 'number' ? [target] : [...target];
+
+        if (targets.length !== gate.width()) throw new Error(
+            `Error in QuantumCircuit.append(): ${gate.label()} acts on ${gate.width()} qubits but ${targets.length} targets were given.`);
+
+        ctrlState = this.validate('append', targets, controls, ctrlState);
+        condition = condition && this.validateCondition('append', condition);
      
         if (gate instanceof I) return this;  // skip if the passed gate is the identity
 
-        const unified = controls.map((el, i) => ({ index: el, state: ctrlState!.at(i)! }));
-        
-        // create the gate as a QMDD and multiply it to the current statevector
-        this.diagram = QMDD.multiply(QMDD.construct(gate, target, unified, this.terminal), this.diagram, this.terminal);
-        // update step counters
-        for (const i of temp) this.cols = Math.max(this.cols, ++this.qbuckets[i]);
+        this.apply({ gate: gate, targets: targets, controls: [...controls], ctrlState: ctrlState, condition: condition });
 
         return this;
     }
@@ -167,9 +446,10 @@ export class QuantumCircuit
      * Applies the specified uncontrolled step on the given qubit indices.
      * @param gates A list of `Gate` objects to apply on the target qubits. Assumed to be in the same order as `qubits`.
      * @param qubits A list of indices describing the target qubits. Assumed to be in the same order as `gates`.
+     * @param condition (Optional) The classical condition to apply the step under, evaluated against the current classical register.
      * @returns `this` circuit instance.
      */
-    public appendStep (gates: Gate[], qubits: number[]): QuantumCircuit
+    public appendStep (gates: Gate[], qubits: number[], condition?: Condition): QuantumCircuit
     {
         if (gates.length !== qubits.length) throw new Error(
             `Error in QuantumCircuit.appendStep(): Unequal number of gates (${gates.length}) and qubit indices (${qubits.length}) given.`);
@@ -183,18 +463,32 @@ export class QuantumCircuit
         for (const i of qubits) if (i < 0 || i >= this.width()) throw new Error(
             `Error in QuantumCircuit.appendStep(): Out of bounds qubit requested (received index ${i}, expected [0, ${this.width()})).`);
 
+        for (const gate of gates) if (gate.width() > 1) throw new Error(
+            `Error in QuantumCircuit.appendStep(): Only single-qubit gates can form a step (received ${gate.label()}).`);
+
+        condition = condition && this.validateCondition('appendStep', condition);
+
         const step = gates.map((el, i) => ({ operator: el, target: qubits[i] }));
 
+        this.deferred ||= gates.some(gate => gate.parameters().length > 0);
+
         // create the gate as a QMDD and multiply it to the current statevector
-        this.diagram = QMDD.multiply(QMDD.uncontrolledStep(step, this.terminal), this.diagram, this.terminal);
-        // update step counters
-        for (const i of qubits) this.cols = Math.max(this.cols, ++this.qbuckets[i]);
+        if (!this.deferred && this.holds(condition))
+            this.diagram = QMDD.multiply(QMDD.uncontrolledStep(step, this.terminal), this.diagram, this.terminal);
+        // update step counters: each gate occupies the first column after its qubit is free and the condition is measured
+        const after = Math.max(0, ...(condition?.clbits ?? []).map(c => this.cbuckets[c]));
+
+        for (const i of qubits) this.cols = Math.max(this.cols, this.qbuckets[i] = Math.max(this.qbuckets[i], after) + 1);
+        for (const c of condition?.clbits ?? []) this.rbuckets[c] = Math.max(this.rbuckets[c], ...qubits.map(i => this.qbuckets[i]));
+        // log every non-trivial gate of the step separately
+        for (const [i, gate] of gates.entries()) if (!(gate instanceof I))
+            this.instructions.push({ gate: gate, targets: [qubits[i]], controls: [], ctrlState: "", condition: condition });
 
         return this;
     }
 
     /**
-     * Initializes `this` to the given `state`. Previous operations are discarded.
+     * Initializes `this` to the given `state`. Previous operations (and measurement outcomes) are discarded.
      * @param state The initial state to apply (a combination of '0', '1', '+', '-', 'r' and 'l').
      * @returns `this` circuit instance.
      */
@@ -219,6 +513,11 @@ export class QuantumCircuit
         // reset the diagram back to all zeros
         this.cols = 0;
         this.qbuckets = Array(this.qubits).fill(0);
+        this.cbuckets.fill(0);
+        this.rbuckets.fill(0);
+        this.instructions = [];
+        this.bits.fill(0);
+        this.deferred = false;
         this.diagram = QMDD.groundState(this.terminal);
 
         for (let i = 0; i < state.length; i++)
@@ -241,10 +540,210 @@ export class QuantumCircuit
     {
         if (decimals < 0 || !Number.isInteger(decimals)) throw new Error(
             `Error in QuantumCircuit.statevector(): Cannot round to ${decimals} decimal places.`);
+
+        this.validateBound('statevector');
         
         return QMDD.strongSimulate(this.diagram, decimals);
     }
 
+    /**
+     * Returns the amplitude of a single basis state, following only its path in the diagram (the rest of the statevector
+     * is never traversed).
+     * @param state The basis state, either as a bitstring in the same notation as `statevector()` or as its integer index
+     * (where qubit 0 is the least significant bit).
+     * @param decimals The number of decimal places to round the complex number parts on.
+     * @returns The rounded real and imaginary part of the amplitude, along with its `exact` `Complex` representation.
+     */
+    public amplitude (state: string | number, decimals: number = 4): { re: number, im: number, exact: Complex }
+    {
+        if (decimals < 0 || !Number.isInteger(decimals)) throw new Error(
+            `Error in QuantumCircuit.amplitude(): Cannot round to ${decimals} decimal places.`);
+
+        if (typeof state === 'number')
+        {
+            if (!Number.isSafeInteger(state) || state < 0 || state >= 2 ** this.qubits) throw new Error(
+                `Error in QuantumCircuit.amplitude(): Basis state index ${state} is out of range for ${this.qubits} qubits.`);
+
+            state = state.toString(2).padStart(this.qubits, '0');
+        }
+
+        if (state.length !== this.qubits || !/^[01]+$/.test(state)) throw new Error(
+            `Error in QuantumCircuit.amplitude(): Expected a basis state of ${this.qubits} bits, but '${state}' was given.`);
+
+        this.validateBound('amplitude');
+
+        return QMDD.amplitude(this.diagram, state, decimals);
+    }
+
+    /**
+     * Calculates the marginal probability distribution of measuring the given qubits, directly on the diagram 
+     * (the statevector is never expanded).
+     * @param qubits (Optional) The indices of the qubits to read out, all of them by default. In the outcomes, 
+     * `qubits[0]` is the last character, so the default matches the notation of `statevector()`.
+     * @returns A `Map` connecting each outcome to its probability (impossible outcomes are not included).
+     */
+    public probabilities (qubits?: number | number[]): Map<string, number>
+    {
+        const q = qubits === undefined ? [...Array(this.qubits).keys()] : typeof qubits === 'number' ? [qubits] : qubits;
+
+        this.validate('probabilities', q, [], "");
+
+        this.validateBound('probabilities');
+
+        return QMDD.marginals(this.diagram, q);
+    }
+
+    /**
+     * Accumulates all operations of `this` circuit (as logged) into a single matrix `QMDD`, i.e. its unitary.
+     * @param method The name of the calling method, for error reporting.
+     * @param adjoint (Optional) Whether to accumulate the adjoint of the unitary instead, i.e. the inverted operations in reverse.
+     * @param terminal (Optional) The terminal `QMDD Vertex` to build upon, if not the one of `this` circuit.
+     * @param variable (Optional) The mapping of the qubits to the variables of the diagram, if not the identity.
+     * @returns The entry `MatrixEdge` of the unitary of `this` circuit.
+     */
+    private operator (method: string, adjoint: boolean = false, terminal: QMDD = this.terminal, variable: (qubit: number) => number = q => q): MatrixEdge
+    {
+        this.validateBound(method);
+
+        let e: MatrixEdge = { dest: terminal, weight: 1 };  // the identity
+
+        for (const { gate, targets, controls, ctrlState, condition } of adjoint ? [...this.instructions].reverse() : this.instructions)
+        {
+            if (gate instanceof Measure || gate instanceof Reset) throw new Error(
+                `Error in QuantumCircuit.${method}(): Cannot extract the unitary of a circuit with measurements or resets.`);
+
+            if (condition !== undefined) throw new Error(
+                `Error in QuantumCircuit.${method}(): Cannot extract the unitary of a circuit with classically conditioned operations.`);
+
+            const unified = controls.map((el, i) => ({ index: variable(el), state: ctrlState.at(i)! }));
+
+            e = QMDD.multiply(QMDD.construct(adjoint ? gate.adjoint() : gate, targets.map(variable), unified, terminal), e, terminal);
+        }
+
+        return e;
+    }
+
+    /**
+     * Accumulates all operations of `this` circuit into the superoperator `U ⊗ U*`, i.e. the action of its unitary on
+     * vectorized density matrices, interleaving the variables so that qubit q of `U` is on 2q and its conjugate copy on 2q+1.
+     * @param method The name of the calling method, for error reporting.
+     * @param terminal The terminal `QMDD Vertex` of twice the width of `this` circuit.
+     * @returns The entry `MatrixEdge` of the superoperator of `this` circuit.
+     */
+    private superoperator (method: string, terminal: QMDD): MatrixEdge
+    {
+        const u = this.operator(method, false, terminal, q => 2 * q);
+        const conjugate = QMDD.conjugate(this.operator(method, false, terminal, q => 2 * q + 1), terminal);
+
+        return QMDD.multiply(u, conjugate, terminal);
+    }
+
+    /**
+     * Checks whether the two given circuits implement the same unitary, by building their miter `U_b† * U_a` 
+     * as a matrix `QMDD` and checking whether it reduces to the identity (a constant-time check thanks to the 
+     * canonicity of the diagram). Ordering the miter this way, each of its deviating columns is a basis state 
+     * the two circuits act differently upon.
+     * 
+     * For designs that differ in their ancilla or garbage qubits, partial equivalence can be checked instead: 
+     * the unitaries are restricted to the inputs where all `ancillas` are |0> before being compared directly. 
+     * With `garbage` qubits, whose outputs are ignored, the circuits must instead leave the rest of the qubits in the 
+     * same reduced state for every (ancilla-restricted) input, superpositions included. This is checked on the 
+     * superoperators `U ⊗ U*`, by comparing Tr_garbage(U|i><j|U†) for every pair of basis inputs, which makes 
+     * the global phase unobservable (regardless of `upToGlobalPhase`).
+     * 
+     * Measurements, resets and classically conditioned operations are not allowed.
+     * @param a The first circuit.
+     * @param b The second circuit, of equal width.
+     * @param options (Optional) `upToGlobalPhase` to also accept unitaries that only differ by a global phase, 
+     * and the indices of the `ancillas` (assumed |0> on input) and `garbage` (ignored on output) qubits, shared by both circuits.
+     * @returns Whether the circuits are equivalent, along with a counterexample basis state (in the same notation 
+     * as `statevector()`) if they are not. Up to a global phase, the phase is the one the circuits differ by on |0...0>
+     * (or, for partial equivalence, by the normalized diagrams). With garbage, the counterexample is a basis input
+     * whose reduced output states differ if there is one, and otherwise one of a pair of basis inputs whose superposition
+     * the circuits act differently upon.
+     */
+    public static equivalent (
+        a: QuantumCircuit, 
+        b: QuantumCircuit, 
+        options: { upToGlobalPhase?: boolean, ancillas?: readonly number[], garbage?: readonly number[] } = {}
+    ): Equivalence
+    {
+        if (a.width() !== b.width()) throw new Error(
+            `Error in QuantumCircuit.equivalent(): Cannot compare circuits of different widths (${a.width()} and ${b.width()}).`);
+
+        const { upToGlobalPhase = false, ancillas = [], garbage = [] } = options;
+
+        for (const qubits of [ancillas, garbage])
+        {
+            for (const i of qubits) if (i < 0 || i >= a.width() || !Number.isInteger(i)) throw new Error(
+                `Error in QuantumCircuit.equivalent(): Out of bounds qubit requested (received index ${i}, expected [0, ${a.width()})).`);
+
+            if (new Set(qubits).size < qubits.length) throw new Error(
+                'Error in QuantumCircuit.equivalent(): Duplicate qubit index detected.');
+        }
+
+        let counterexample: string | undefined;
+
+        if (ancillas.length === 0 && garbage.length === 0)
+        {
+            const miter = QMDD.multiply(b.operator('equivalent', true), a.operator('equivalent'), a.terminal);
+            counterexample = QMDD.counterexample(miter, a.terminal, upToGlobalPhase);
+        }
+        else if (garbage.length > 0)
+        {
+            const terminal = QMDD.createTerminal(2 * a.width());
+            const [sa, sb] = [a, b].map(qc => QMDD.trace(
+                QMDD.reduce(qc.superoperator('equivalent', terminal), ancillas.flatMap(q => [2 * q, 2 * q + 1]), terminal), garbage, terminal));
+
+            if (sa.dest !== sb.dest || sa.weight !== sb.weight)
+            {
+                const difference = QMDD.add(sa, { dest: sb.dest, weight: Complex.mul(Complex.NEG_ONE, sb.weight) }, terminal);
+                const column = QMDD.deviation(QMDD.trace(difference, [], terminal, true), terminal, 0) ?? QMDD.deviation(difference, terminal, 0);
+
+                // the columns of the superoperator are the pairs (i, j), with the bits of i on the even variables
+                counterexample = column?.replace(/.(.)/g, '$1');
+            }
+        }
+        else
+        {
+            const ua = QMDD.reduce(a.operator('equivalent'), ancillas, a.terminal);
+            const ub = QMDD.reduce(b.operator('equivalent'), ancillas, a.terminal);
+            // the reduced diagrams are canonical, so they are equal up to a scalar iff they share their root
+            const ratio = ub.weight !== 0 ? Complex.div(ua.weight, ub.weight) : Complex.ONE;
+            const phase = upToGlobalPhase ? ratio : Complex.ONE;
+
+            if (ua.dest !== ub.dest || ratio !== phase || Math.abs(Complex.get(phase)!.mag2() - 1) > Complex.TOLERANCE)
+            {
+                // any nonzero column of the difference (with the phase the diagrams align on) tells them apart
+                const difference = QMDD.add(ua, { dest: ub.dest, weight: Complex.mul(Complex.NEG_ONE, phase, ub.weight) }, a.terminal);
+
+                counterexample = QMDD.deviation(difference, a.terminal, 0);
+            }
+        }
+
+        return counterexample === undefined ? { equivalent: true } : { equivalent: false, counterexample: counterexample };
+    }
+
+    /**
+     * Returns the unitary matrix implemented by the current circuit instance as a lazy `Generator` iterable
+     * of its nonzero entries. Rows and columns are given as basis states, in the same notation as `statevector()`.
+     * 
+     * The operations are accumulated into a matrix `QMDD` from the identity, so the initial state of the circuit
+     * is irrelevant (the gates of `initialize()` are part of the unitary), and measurements, resets and classically 
+     * conditioned operations are not allowed.
+     * 
+     * `!!!` The full unitary is exponentially large on the amount of qubits in the general case.
+     * @param decimals The number of decimal places to round the complex number parts on.
+     * @returns The lazy `Generator` iterable describing the nonzero entries of the unitary.
+     */
+    public unitary (decimals: number = 4): Generator<{ row: string, col: string, re: number, im: number }>
+    {
+        if (decimals < 0 || !Number.isInteger(decimals)) throw new Error(
+            `Error in QuantumCircuit.unitary(): Cannot round to ${decimals} decimal places.`);
+
+        return QMDD.entries(this.operator('unitary'), this.terminal, decimals);
+    }
+
     /**
      * Performs shot-based sampling on the probability distribution of the current circuit instance.
      * 
@@ -258,6 +757,8 @@ export class QuantumCircuit
         if (shots < 1 || !Number.isInteger(shots)) throw new Error(
             `Error in QuantumCircuit.sample(): Number of sample shots must be a positive integer (${shots} was passed).`);
 
+        this.validateBound('sample');
+
         const [a, b, c, d] = cyrb128(seed?.toString() ?? randomString());
         const prng = sfc32(a, b, c, d);
         const counts: Map<string, { occurrences: number, re: number, im: number }> = new Map();
@@ -276,90 +777,326 @@ export class QuantumCircuit
         return counts;
     }
 
+    /**
+     * Calculates the inner product <`this`|`other`> between the current states of the two circuits, directly on
+     * their diagrams (the statevectors are never expanded).
+     * @param other The circuit to overlap with, of equal width.
+     * @returns The real and imaginary part of the inner product.
+     */
+    public innerProduct (other: QuantumCircuit): { re: number, im: number }
+    {
+        if (this.width() !== other.width()) throw new Error(
+            `Error in QuantumCircuit.innerProduct(): Cannot compare circuits of different widths (${this.width()} and ${other.width()}).`);
+
+        this.validateBound('innerProduct');
+        other.validateBound('innerProduct');
+
+        const overlap = Complex.get(QMDD.innerProduct(this.diagram, other.diagram))!;
+
+        return { re: overlap.re(), im: overlap.im() };
+    }
+
+    /**
+     * Calculates the fidelity |<`this`|`other`>|^2 between the current (pure) states of the two circuits.
+     * @param other The circuit to compare with, of equal width.
+     * @returns The fidelity, in [0, 1].
+     */
+    public fidelity (other: QuantumCircuit): number
+    {
+        if (this.width() !== other.width()) throw new Error(
+            `Error in QuantumCircuit.fidelity(): Cannot compare circuits of different widths (${this.width()} and ${other.width()}).`);
+
+        this.validateBound('fidelity');
+        other.validateBound('fidelity');
+
+        return Complex.get(QMDD.innerProduct(this.diagram, other.diagram))!.mag2();
+    }
+
+    /**
+     * Constructs the given Pauli string as a single matrix `QMDD`.
+     * @param method The name of the calling method, for error reporting.
+     * @param pauli The Pauli string, in the same notation as the basis states (qubit 0 is the last character).
+     * @returns The entry `MatrixEdge` of the Pauli operator.
+     */
+    private pauli (method: string, pauli: string): MatrixEdge
+    {
+        if (pauli.length !== this.qubits) throw new Error(
+            `Error in QuantumCircuit.${method}(): Pauli string '${pauli}' does not match the declared amount of ${this.qubits} qubits.`);
+
+        if (!/^[IXYZ]+$/.test(pauli)) throw new Error(
+            `Error in QuantumCircuit.${method}(): Unrecognized character found in Pauli string, 'I', 'X', 'Y' or 'Z' were expected.`);
+
+        const handler: Record<string, () => Gate> = { 'X': () => new X(), 'Y': () => new Y(), 'Z': () => new Z() };
+        const gates = [...pauli]
+            .map((el, i) => ({ char: el, target: this.qubits - i - 1 }))  // in string notation, the first char is the MSB
+            .filter(({ char }) => char !== 'I')
+            .map(({ char, target }) => ({ operator: handler[char](), target: target }));
+
+        return QMDD.uncontrolledStep(gates, this.terminal);
+    }
+
+    /**
+     * Calculates the expectation value <ψ|O|ψ> of the given Pauli string or `Observable` on the current state ψ of `this`
+     * circuit, directly on the diagrams. The terms of an observable are evaluated one by one, sharing the compute tables 
+     * (e.g. the products with the common subdiagrams of ψ). The value is exact whenever the amplitudes of the state are.
+     * @param observable The Pauli string (a combination of 'I', 'X', 'Y' and 'Z', in the same notation as the basis states, 
+     * i.e. qubit 0 is the last character), or a weighted sum of them.
+     * @returns The (real) expectation value, along with its `exact` `Complex` representation.
+     */
+    public expectation (observable: string | Observable): { value: number, exact: Complex }
+    {
+        if (observable instanceof Observable && observable.width() !== this.qubits) throw new Error(
+            `Error in QuantumCircuit.expectation(): Observable spans ${observable.width()} qubits but the circuit has ${this.qubits}.`);
+
+        const [paulis, coefficients] = typeof observable === 'string' ? 
+            [[observable], [Complex.ONE]] : 
+            [observable.terms.map(({ pauli }) => pauli), observable.coefficients()];
+        const operators = paulis.map(pauli => this.pauli('expectation', pauli));
+
+        this.validateBound('expectation');
+
+        let sum = Complex.ZERO;
+
+        for (const [i, operator] of operators.entries())
+            sum = Complex.add(sum, Complex.mul(coefficients[i], QMDD.innerProduct(this.diagram, QMDD.multiply(operator, this.diagram, this.terminal))));
+
+        const exact = Complex.get(sum)!;
+
+        return { value: exact.re(), exact: exact };
+    }
+
+    /**
+     * Measures the given qubits in the computational basis, collapsing the statevector and storing the outcomes
+     * in the classical register.
+     * @param qubits The indices of the qubits to measure.
+     * @param clbits The indices of the classical bits to store the outcomes in. Assumed in the same order as `qubits`.
+     * @param condition (Optional) The classical condition to measure under, evaluated against the current classical register.
+     * @returns `this` circuit instance.
+     */
+    public measure (qubits: number | number[], clbits: number | number[], condition?: Condition): QuantumCircuit
+    {
+        const q = typeof qubits === 'number' ? [qubits] : qubits;
+        const c = typeof clbits === 'number' ? [clbits] : clbits;
+
+        if (q.length !== c.length) throw new Error(
+            `Error in QuantumCircuit.measure(): Unequal number of qubit (${q.length}) and classical bit (${c.length}) indices given.`);
+
+        this.validate('measure', q, [], "");
+
+        this.validateClbits('measure', c);
+
+        condition = condition && this.validateCondition('measure', condition);
+
+        for (const [i, qubit] of q.entries())
+            this.apply({ gate: new Measure(), targets: [qubit], controls: [], ctrlState: "", clbits: [c[i]], condition: condition });
+
+        return this;
+    }
+
+    /**
+     * Resets the given qubits to the |0> state. Qubits in superposition are measured first (without storing the outcome),
+     * collapsing the rest of the statevector accordingly.
+     * @param qubits The indices of the qubits to reset.
+     * @param condition (Optional) The classical condition to reset under, evaluated against the current classical register.
+     * @returns `this` circuit instance.
+     */
+    public reset (qubits: number | number[], condition?: Condition): QuantumCircuit
+    {
+        const q = typeof qubits === 'number' ? [qubits] : qubits;
+
+        this.validate('reset', q, [], "");
+
+        condition = condition && this.validateCondition('reset', condition);
+
+        for (const qubit of q)
+            this.apply({ gate: new Reset(), targets: [qubit], controls: [], ctrlState: "", condition: condition });
+
+        return this;
+    }
+
     /**
      * Adds a Pauli X (NOT) gate on the given qubit indices.
      * @param qubits The qubit indices to include the gate on.
+     * @param condition (Optional) The classical condition to apply the gate under.
      * @returns `this` circuit instance.
      */
-    public x (qubits: number | number[]): QuantumCircuit
+    public x (qubits: number | number[], condition?: Condition): QuantumCircuit
     {
         if (typeof qubits === 'number')
-            return this.append(new X(), qubits);
+            return this.append(new X(), qubits, [], "", condition);
 
         // safe because X is a singleton ----------------vvvvvvv
-        return this.appendStep(Array(qubits.length).fill(new X()), qubits);
+        return this.appendStep(Array(qubits.length).fill(new X()), qubits, condition);
     }
 
     /**
      * Adds a Pauli Y gate on the given qubit indices.
      * @param qubits The qubit indices to include the gate on.
+     * @param condition (Optional) The classical condition to apply the gate under.
      * @returns `this` circuit instance.
      */
-    public y (qubits: number | number[]): QuantumCircuit
+    public y (qubits: number | number[], condition?: Condition): QuantumCircuit
     {
         if (typeof qubits === 'number')
-            return this.append(new Y(), qubits);
+            return this.append(new Y(), qubits, [], "", condition);
 
         // safe because Y is a singleton ----------------vvvvvvv
-        return this.appendStep(Array(qubits.length).fill(new Y()), qubits);
+        return this.appendStep(Array(qubits.length).fill(new Y()), qubits, condition);
     }
 
     /**
      * Adds a Pauli Z gate on the given qubit indices.
      * @param qubits The qubit indices to include the gate on.
+     * @param condition (Optional) The classical condition to apply the gate under.
      * @returns `this` circuit instance.
      */
-    public z (qubits: number | number[]): QuantumCircuit
+    public z (qubits: number | number[], condition?: Condition): QuantumCircuit
     {
         if (typeof qubits === 'number')
-            return this.append(new Z(), qubits);
+            return this.append(new Z(), qubits, [], "", condition);
 
         // safe because Z is a singleton ----------------vvvvvvv
-        return this.appendStep(Array(qubits.length).fill(new Z()), qubits);
+        return this.appendStep(Array(qubits.length).fill(new Z()), qubits, condition);
     }
 
     /**
      * Adds a Hadamard gate on the given qubit indices.
      * @param qubits The qubit indices to include the gate on.
+     * @param condition (Optional) The classical condition to apply the gate under.
      * @returns `this` circuit instance.
      */
-    public h (qubits: number | number[]): QuantumCircuit
+    public h (qubits: number | number[], condition?: Condition): QuantumCircuit
     {
         if (typeof qubits === 'number')
-            return this.append(new H(), qubits);
+            return this.append(new H(), qubits, [], "", condition);
 
         // safe because H is a singleton ----------------vvvvvvv
-        return this.appendStep(Array(qubits.length).fill(new H()), qubits);
+        return this.appendStep(Array(qubits.length).fill(new H()), qubits, condition);
     }
 
     /**
      * Adds an S (square root of Z) gate on the given qubit indices.
      * @param qubits The qubit indices to include the gate on.
      * @param dagger If `true`, instead adds the conjugate transpose (dagger) of S on `qubits`.
+     * @param condition (Optional) The classical condition to apply the gate under.
      * @returns `this` circuit instance.
      */
-    public s (qubits: number | number[], dagger = false): QuantumCircuit
+    public s (qubits: number | number[], dagger = false, condition?: Condition): QuantumCircuit
     {
         if (typeof qubits === 'number')
-            return this.append(new S(dagger), qubits);
+            return this.append(new S(dagger), qubits, [], "", condition);
 
         // safe because S/Sdag is a singleton ----------------vvvvvvv
-        return this.appendStep(Array(qubits.length).fill(new S(dagger)), qubits);        
+        return this.appendStep(Array(qubits.length).fill(new S(dagger)), qubits, condition);        
     }
 
     /**
      * Adds a T (fourth root of Z) gate on the given qubit indices.
      * @param qubits The qubit indices to include the gate on.
      * @param dagger If `true`, instead adds the conjugate transpose (dagger) of T on `qubits`.
+     * @param condition (Optional) The classical condition to apply the gate under.
      * @returns `this` circuit instance.
      */
-    public t (qubits: number | number[], dagger = false): QuantumCircuit
+    public t (qubits: number | number[], dagger = false, condition?: Condition): QuantumCircuit
     {
         if (typeof qubits === 'number')
-            return this.append(new T(dagger), qubits);
+            return this.append(new T(dagger), qubits, [], "", condition);
 
         // safe because T/Tdag is a singleton ----------------vvvvvvv
-        return this.appendStep(Array(qubits.length).fill(new T(dagger)), qubits);        
+        return this.appendStep(Array(qubits.length).fill(new T(dagger)), qubits, condition);        
+    }
+
+    /**
+     * Adds an SX (square root of X) gate on the given qubit indices.
+     * @param qubits The qubit indices to include the gate on.
+     * @param dagger If `true`, instead adds the conjugate transpose (dagger) of SX on `qubits`.
+     * @param condition (Optional) The classical condition to apply the gate under.
+     * @returns `this` circuit instance.
+     */
+    public sx (qubits: number | number[], dagger = false, condition?: Condition): QuantumCircuit
+    {
+        if (typeof qubits === 'number')
+            return this.append(new SX(dagger), qubits, [], "", condition);
+
+        // safe because SX/SXdag is a singleton ----------------vvvvvvvv
+        return this.appendStep(Array(qubits.length).fill(new SX(dagger)), qubits, condition);
+    }
+
+    /**
+     * Adds an RX gate (rotation around the x-axis) on the given qubit indices.
+     * @param qubits The qubit indices to include the gate on.
+     * @param theta The angle of the rotation, in radians (or a symbolic `Parameter`).
+     * @param condition (Optional) The classical condition to apply the gate under.
+     * @returns `this` circuit instance.
+     */
+    public rx (qubits: number | number[], theta: Angle, condition?: Condition): QuantumCircuit
+    {
+        if (typeof qubits === 'number')
+            return this.append(new RX(theta), qubits, [], "", condition);
+
+        return this.appendStep(Array(qubits.length).fill(new RX(theta)), qubits, condition);
+    }
+
+    /**
+     * Adds an RY gate (rotation around the y-axis) on the given qubit indices.
+     * @param qubits The qubit indices to include the gate on.
+     * @param theta The angle of the rotation, in radians (or a symbolic `Parameter`).
+     * @param condition (Optional) The classical condition to apply the gate under.
+     * @returns `this` circuit instance.
+     */
+    public ry (qubits: number | number[], theta: Angle, condition?: Condition): QuantumCircuit
+    {
+        if (typeof qubits === 'number')
+            return this.append(new RY(theta), qubits, [], "", condition);
+
+        return this.appendStep(Array(qubits.length).fill(new RY(theta)), qubits, condition);
+    }
+
+    /**
+     * Adds an RZ gate (rotation around the z-axis) on the given qubit indices.
+     * @param qubits The qubit indices to include the gate on.
+     * @param theta The angle of the rotation, in radians (or a symbolic `Parameter`).
+     * @param condition (Optional) The classical condition to apply the gate under.
+     * @returns `this` circuit instance.
+     */
+    public rz (qubits: number | number[], theta: Angle, condition?: Condition): QuantumCircuit
+    {
+        if (typeof qubits === 'number')
+            return this.append(new RZ(theta), qubits, [], "", condition);
+
+        return this.appendStep(Array(qubits.length).fill(new RZ(theta)), qubits, condition);
+    }
+
+    /**
+     * Adds a phase gate on the given qubit indices.
+     * @param qubits The qubit indices to include the gate on.
+     * @param lambda The angle of the phase shift, in radians (or a symbolic `Parameter`).
+     * @param condition (Optional) The classical condition to apply the gate under.
+     * @returns `this` circuit instance.
+     */
+    public p (qubits: number | number[], lambda: Angle, condition?: Condition): QuantumCircuit
+    {
+        if (typeof qubits === 'number')
+            return this.append(new P(lambda), qubits, [], "", condition);
+
+        return this.appendStep(Array(qubits.length).fill(new P(lambda)), qubits, condition);
+    }
+
+    /**
+     * Adds a generic single-qubit U gate on the given qubit indices.
+     * @param qubits The qubit indices to include the gate on.
+     * @param theta The rotation angle, in radians.
+     * @param phi The phase angle applied after the rotation, in radians.
+     * @param lambda The phase angle applied before the rotation, in radians.
+     * @param condition (Optional) The classical condition to apply the gate under.
+     * @returns `this` circuit instance.
+     */
+    public u (qubits: number | number[], theta: Angle, phi: Angle, lambda: Angle, condition?: Condition): QuantumCircuit
+    {
+        if (typeof qubits === 'number')
+            return this.append(new U(theta, phi, lambda), qubits, [], "", condition);
+
+        return this.appendStep(Array(qubits.length).fill(new U(theta, phi, lambda)), qubits, condition);
     }
 
     /**
@@ -399,6 +1136,18 @@ export class QuantumCircuit
         return this.append(new X(), target, controls, ctrlState);
     }
 
+    /**
+     * Adds a controlled-SX gate on the given qubit indeces.
+     * @param control The index of the control qubit.
+     * @param target The index of the target qubit.
+     * @param ctrlState The control state to activate on.
+     * @returns `this` circuit instance.
+     */
+    public csx (control: number, target: number, ctrlState?: string): QuantumCircuit
+    {
+        return this.append(new SX(), target, [control], ctrlState);
+    }
+
     /**
      * Adds a controlled-Y gate on the given qubit indeces.
      * @param control The index of the control qubit.
@@ -436,6 +1185,18 @@ export class QuantumCircuit
         return this.append(new Z(), target, [second, first], ctrlState);
     }
 
+    /**
+     * Adds a multi-controlled-Z gate on the given qubit indices.
+     * @param controls The array of the control qubit indices.
+     * @param target The index of the target qubit.
+     * @param ctrlState The control state to activate on.
+     * @returns `this` circuit instance.
+     */
+    public mcz (controls: number[], target: number, ctrlState?: string): QuantumCircuit
+    {
+        return this.append(new Z(), target, controls, ctrlState);
+    }
+
     /**
      * Adds a controlled-Hadamard gate on the given qubit indeces.
      * @param control The index of the control qubit.
@@ -448,6 +1209,18 @@ export class QuantumCircuit
         return this.append(new H(), target, [control], ctrlState);
     }
 
+    /**
+     * Adds a multi-controlled-Hadamard gate on the given qubit indices.
+     * @param controls The array of the control qubit indices.
+     * @param target The index of the target qubit.
+     * @param ctrlState The control state to activate on.
+     * @returns `this` circuit instance.
+     */
+    public mch (controls: number[], target: number, ctrlState?: string): QuantumCircuit
+    {
+        return this.append(new H(), target, controls, ctrlState);
+    }
+
     /**
      * Adds a controlled-S gate on the given qubit indeces.
      * @param control The index of the control qubit.
@@ -460,26 +1233,45 @@ export class QuantumCircuit
         return this.append(new S(), target, [control], ctrlState);
     }
 
+    /**
+     * Adds a controlled-phase gate on the given qubit indeces. The phases on multiples of pi/512 (e.g. pi/2^k for k <= 9, 
+     * as met in the QFT) are simulated exactly.
+     * @param control The index of the control qubit.
+     * @param target The index of the target qubit.
+     * @param lambda The angle of the phase shift, in radians.
+     * @param ctrlState The control state to activate on.
+     * @returns `this` circuit instance.
+     */
+    public cp (control: number, target: number, lambda: Angle, ctrlState?: string): QuantumCircuit
+    {
+        return this.append(new P(lambda), target, [control], ctrlState);
+    }
+
+    /**
+     * Adds a multi-controlled-phase gate on the given qubit indices.
+     * @param controls The array of the control qubit indices.
+     * @param target The index of the target qubit.
+     * @param lambda The angle of the phase shift, in radians.
+     * @param ctrlState The control state to activate on.
+     * @returns `this` circuit instance.
+     */
+    public mcp (controls: number[], target: number, lambda: Angle, ctrlState?: string): QuantumCircuit
+    {
+        return this.append(new P(lambda), target, controls, ctrlState);
+    }
+
     /**
      * Adds a SWAP gate on the given qubit indeces.
      * @param first The index of the first qubit to swap.
      * @param second The index of the second qubit to swap.
+     * @param condition (Optional) The classical condition to apply the gate under.
      * @returns `this` circuit instance.
      */
-    public swap (first: number, second: number): QuantumCircuit
+    public swap (first: number, second: number, condition?: Condition): QuantumCircuit
     {
-        // lazy solution, to change.
-        this
-        .cx(first, second)
-        .cx(second, first)
-        .cx(first, second);
-
-        // every .cx internally calls .append, iterating the relevant qubit counters thrice
-        // this is probably unexpected on the user side, since this could increase the depth counter by more than 1
-        // even though a single operation was requested (no matter how SWAP actually decomposes into elementaries)
-        this.qbuckets[first]  -= 2;
-        this.qbuckets[second] -= 2;
-        this.cols = Math.max(...this.qbuckets);
+        this.validate('swap', [first, second], [], "");
+        condition = condition && this.validateCondition('swap', condition);
+        this.apply({ gate: new SWAP(), targets: [first, second], controls: [], ctrlState: "", condition: condition });
 
         return this;
     }
@@ -490,28 +1282,272 @@ export class QuantumCircuit
      * @param first The index of the first qubit to swap.
      * @param second The index of the second qubit to swap.
      * @param ctrlState The control state to activate on.
+     * @param condition (Optional) The classical condition to apply the gate under.
      * @returns `this` circuit instance.
      */
-    public cswap (control: number, first: number, second: number, ctrlState?: string): QuantumCircuit
+    public cswap (control: number, first: number, second: number, ctrlState?: string, condition?: Condition): QuantumCircuit
     {
-        const state = ctrlState ?? '1';
+        const state = this.validate('cswap', [first, second], [control], ctrlState ?? "");
+        condition = condition && this.validateCondition('cswap', condition);
+        this.apply({ gate: new SWAP(), targets: [first, second], controls: [control], ctrlState: state, condition: condition });
 
-        // DOI:10.1103/PHYSREVA.53.2855
-        this
-        .cx(second, first)
-        // if Fredkin satisfies on |B>, the internal Toffoli satisfies on |1B>
-        // if B neither |0> nor |1>, pass it as is to proc errors.
-        /* c8 ignore next */
-        .ccx(control, first, second, state === '0' ? '10' : state === '1' ? '11' : state)
-        .cx(second, first);
+        return this;
+    }
+
+    /**
+     * Adds a multi-controlled-SWAP gate on the given qubit indices.
+     * @param controls The array of the control qubit indices.
+     * @param first The index of the first qubit to swap.
+     * @param second The index of the second qubit to swap.
+     * @param ctrlState The control state to activate on.
+     * @returns `this` circuit instance.
+     */
+    public mcswap (controls: number[], first: number, second: number, ctrlState?: string): QuantumCircuit
+    {
+        return this.append(new SWAP(), [first, second], controls, ctrlState);
+    }
+
+    /**
+     * Adds an iSWAP gate on the given qubit indeces.
+     * @param first The index of the first qubit to swap.
+     * @param second The index of the second qubit to swap.
+     * @param dagger If true, applies the conjugate transpose (iSWAP†) instead.
+     * @param condition (Optional) The classical condition to apply the gate under.
+     * @returns `this` circuit instance.
+     */
+    public iswap (first: number, second: number, dagger: boolean = false, condition?: Condition): QuantumCircuit
+    {
+        this.validate('iswap', [first, second], [], "");
+        condition = condition && this.validateCondition('iswap', condition);
+        this.apply({ gate: new iSWAP(dagger), targets: [first, second], controls: [], ctrlState: "", condition: condition });
+
+        return this;
+    }
+
+    /**
+     * Adds an echoed cross-resonance (ECR) gate on the given qubit indeces.
+     * @param first The index of the first qubit, acting as the control of the interaction.
+     * @param second The index of the second qubit.
+     * @param condition (Optional) The classical condition to apply the gate under.
+     * @returns `this` circuit instance.
+     */
+    public ecr (first: number, second: number, condition?: Condition): QuantumCircuit
+    {
+        this.validate('ecr', [first, second], [], "");
+        condition = condition && this.validateCondition('ecr', condition);
+        this.apply({ gate: new ECR(), targets: [first, second], controls: [], ctrlState: "", condition: condition });
+
+        return this;
+    }
+
+    /**
+     * Checks that `qubitMap` is a valid placement of the qubits of `other` onto `this` circuit.
+     * @param method The name of the calling method, for error reporting.
+     * @param other The `QuantumCircuit` to place.
+     * @param qubitMap The indices of the qubits of `this` that qubits 0, 1, ... of `other` are mapped onto.
+     * If omitted, the qubits of `other` are mapped onto the first qubits of `this` in order.
+     * @returns The (possibly completed) qubit map.
+     */
+    private validateMap (method: string, other: QuantumCircuit, qubitMap?: number[]): number[]
+    {
+        if (qubitMap === undefined) 
+        {
+            if (other.width() > this.width()) throw new Error(
+                `Error in QuantumCircuit.${method}(): Too many qubits requested (declared width is ${this.width()} but ${other.width()} indices were received).`);
+
+            qubitMap = [...Array(other.width()).keys()];
+        }
+
+        if (qubitMap.length !== other.width()) throw new Error(
+            `Error in QuantumCircuit.${method}(): Unequal number of qubit indices (${qubitMap.length}) and composed circuit width (${other.width()}) given.`);
+
+        this.validate(method, qubitMap, [], "");
+
+        for (const { clbits, condition } of other.instructions)
+            this.validateClbits(method, [...clbits ?? [], ...condition?.clbits ?? []]);
+
+        return qubitMap;
+    }
+
+    /**
+     * Applies all operations of `other` onto `this` circuit, in order.
+     * @param other The `QuantumCircuit` whose operations to apply.
+     * @param qubitMap (Optional) The indices of the qubits of `this` that qubits 0, 1, ... of `other` are mapped onto. 
+     * If omitted, the qubits of `other` are mapped onto the first qubits of `this` in order.
+     * @returns `this` circuit instance.
+     */
+    public compose (other: QuantumCircuit, qubitMap?: number[]): QuantumCircuit
+    {
+        const map = this.validateMap('compose', other, qubitMap);
+
+        // copy the log beforehand, in case `other` is `this`
+        for (const { gate, targets, controls, ctrlState, clbits, condition } of [...other.instructions])
+            this.apply({ 
+                gate: gate, 
+                targets: targets.map(i => map[i]), 
+                controls: controls.map(i => map[i]), 
+                ctrlState: ctrlState, 
+                clbits: clbits, 
+                condition: condition 
+            });
+
+        return this;
+    }
+
+    /**
+     * Applies all operations of `sub` onto `this` circuit, in order, each one additionally controlled 
+     * by the given `controls`.
+     * @param sub The `QuantumCircuit` whose operations to apply.
+     * @param controls The list of the control qubit indices (of `this`). `!` Assumed in the same order as `ctrlState`. 
+     * @param ctrlState The control state to activate on. `!` Assumed in the same order as `controls`.
+     * @param qubitMap (Optional) The indices of the qubits of `this` that qubits 0, 1, ... of `sub` are mapped onto. 
+     * If omitted, the qubits of `sub` are mapped onto the first qubits of `this` in order.
+     * @returns `this` circuit instance.
+     */
+    public appendControlled (sub: QuantumCircuit, controls: number[], ctrlState: string = "", qubitMap?: number[]): QuantumCircuit
+    {
+        const map = this.validateMap('appendControlled', sub, qubitMap);
+        const state = this.validate('appendControlled', [], controls, ctrlState);
+        const log = [...sub.instructions];
+
+        if (log.some(({ gate }) => gate instanceof Measure)) throw new Error(
+            `Error in QuantumCircuit.appendControlled(): Measurements cannot be controlled.`);
+
+        if (log.some(({ gate }) => gate instanceof Reset)) throw new Error(
+            `Error in QuantumCircuit.appendControlled(): Resets cannot be controlled.`);
+
+        // the mapped qubits that are actually acted upon must be distinct from the controls
+        for (const { targets, controls: inner } of log) for (const i of [...targets, ...inner]) if (controls.includes(map[i])) throw new Error(
+            `Error in QuantumCircuit.appendControlled(): Control qubit ${map[i]} is also acted upon by the controlled circuit.`);
 
-        // every .cx internally calls .append, iterating the relevant qubit counters thrice
-        // this is probably unexpected on the user side, since this could increase the depth counter by more than 1
-        // even though a single operation was requested (no matter how SWAP actually decomposes into elementaries)
-        this.qbuckets[first]  -= 2;
-        this.qbuckets[second] -= 2;
-        this.cols = Math.max(...this.qbuckets);
+        for (const { gate, targets, controls: inner, ctrlState: innerState, condition } of log)
+            this.apply({ 
+                gate: gate, 
+                targets: targets.map(i => map[i]), 
+                controls: [...inner.map(i => map[i]), ...controls], 
+                ctrlState: innerState + state,
+                condition: condition
+            });
 
         return this;
     }
+
+    /**
+     * Creates the controlled version of `this` circuit, i.e. a new circuit of the same width where every operation
+     * is additionally controlled by the given `controls`.
+     * @param controls The list of the control qubit indices. These must not be acted upon by `this`.
+     * @param ctrlState The control state to activate on.
+     * @returns The controlled `QuantumCircuit`.
+     */
+    public control (controls: number[], ctrlState: string = ""): QuantumCircuit
+    {
+        return new QuantumCircuit(this.qubits, this.clbits()).appendControlled(this, controls, ctrlState);
+    }
+
+    /**
+     * Lists the unbound symbols that the operations of `this` circuit depend upon.
+     * @returns The symbols, sorted by name.
+     */
+    public parameters (): Parameter[]
+    {
+        const names = new Set(this.instructions.flatMap(({ gate }) => gate.parameters().map(({ name }) => name)));
+
+        return [...names].sort().map(name => new Parameter(name));
+    }
+
+    /**
+     * Creates a copy of `this` circuit with the given values substituted into its parameters, and simulates it 
+     * (as long as no parameters are left unbound). Measurements are reproduced with the same seed as `this` circuit.
+     * @param values The values of the parameters (in radians), by name. Parameters that are left out remain unbound.
+     * @returns The bound `QuantumCircuit`.
+     */
+    public assignParameters (values: Readonly<Record<string, number>>): QuantumCircuit
+    {
+        const names = new Set(this.parameters().map(({ name }) => name));
+
+        for (const [name, value] of Object.entries(values))
+        {
+            if (!names.has(name)) throw new Error(
+                `Error in QuantumCircuit.assignParameters(): Unknown parameter '${name}'.`);
+
+            if (!Number.isFinite(value)) throw new Error(
+                `Error in QuantumCircuit.assignParameters(): Non-finite value passed for parameter '${name}'.`);
+        }
+
+        const qc = new QuantumCircuit(this.qubits, this.clbits(), this.seed);
+
+        for (const instruction of this.instructions)
+            qc.apply({ ...instruction, gate: instruction.gate.bind(values) });
+
+        return qc;
+    }
+
+    /**
+     * Creates the inverse of `this` circuit, i.e. a new circuit of the same width (and classical bits) that applies the adjoint
+     * of every operation of `this` in reverse order.
+     * @returns The inverse `QuantumCircuit`.
+     */
+    public inverse (): QuantumCircuit
+    {
+        if (this.instructions.some(({ condition }) => condition !== undefined)) throw new Error(
+            `Error in QuantumCircuit.inverse(): Classically conditioned operations are not reversible.`);
+
+        if (this.instructions.some(({ gate }) => gate instanceof Measure)) throw new Error(
+            `Error in QuantumCircuit.inverse(): Measurements are not reversible.`);
+
+        if (this.instructions.some(({ gate }) => gate instanceof Reset)) throw new Error(
+            `Error in QuantumCircuit.inverse(): Resets are not reversible.`);
+
+        const qc = new QuantumCircuit(this.qubits, this.clbits(), this.seed);
+
+        for (const { gate, targets, controls, ctrlState } of [...this.instructions].reverse())
+            qc.apply({ gate: gate.adjoint(), targets: targets, controls: controls, ctrlState: ctrlState });
+
+        return qc;
+    }
+
+    /**
+     * Exports `this` circuit as an OpenQASM program, containing every operation applied so far.
+     * 
+     * Negative controls are conjugated by X gates in OpenQASM 2.0, and expressed through `negctrl` in OpenQASM 3.0.
+     * Gates missing from `qelib1.inc` are decomposed exactly in OpenQASM 2.0: multi-controlled X and phase gates through 
+     * `cu1` and Toffoli ladders (without ancillas), iSWAP and ECR through Clifford gates, and single-qubit `UnitaryGate`s
+     * through `u3` (or `cu3`, under a single control). Controlled iSWAP and ECR gates, multi-qubit `UnitaryGate`s and the 
+     * rest of the gates under two or more controls have no OpenQASM 2.0 equivalent. OpenQASM 3.0 expresses every gate:
+     * iSWAP and ECR through `gate` definitions of the same decompositions, and `UnitaryGate`s through `U` and `gphase`
+     * (split into single-qubit unitaries under control modifiers, if acting on multiple qubits).
+     * As OpenQASM 2.0 only conditions on entire registers, its classical register is split so that each condition covers
+     * one register of its own (thus conditions must cover adjacent bits and cannot partially overlap).
+     * @param version The OpenQASM version to target (2 or 3).
+     * @returns The OpenQASM program text.
+     */
+    public toQASM (version: 2 | 3 = 2): string
+    {
+        if (version !== 2 && version !== 3) throw new Error(
+            `Error in QuantumCircuit.toQASM(): Unsupported OpenQASM version ${version}, 2 or 3 were expected.`);
+
+        return emitQASM(this.qubits, this.clbits(), this.instructions, version);
+    }
+
+    /**
+     * Draws `this` circuit as text, with one wire per qubit (qubit 0 on top) and one column per computational step,
+     * as counted by `depth()`.
+     * 
+     * 1-controls are drawn as filled dots, 0-controls as hollow dots and SWAP targets as crosses. The targets of other
+     * multi-qubit gates are subscripted with their position in the gate matrix.
+     * @returns The multiline drawing.
+     */
+    public draw (): string
+    {
+        return drawCircuit(this.qubits, this.instructions);
+    }
+
+    /**
+     * Serializes `this` circuit as its text drawing.
+     * @returns The same as `draw()`.
+     */
+    public toString (): string
+    {
+        return this.draw();
+    }
 }
\ No newline at end of file
@@ -5,20 +5,108 @@
  */
 
 /**
- * Calculates the greatest common divisor of all passed numbers
- * (assumed integers) using the Euclidean algorithm.
- * @param nums Assumed to be a sequence of integers.
+ * An integer scalar of the exact format, either as a (safe) `number` or as a `bigint`.
+ */
+export type Scalar = number | bigint;
+
+/**
+ * Calculates the greatest common divisor of all passed integers using the Euclidean algorithm.
+ * @param nums A sequence of integers.
  * @returns The GCD of the sequence.
  */
-const gcd = (...nums: number[]) => nums.reduce((a, b) => {
-    a = Math.abs(a);
-    b = Math.abs(b);
+const gcd = (...nums: bigint[]) => nums.reduce((a, b) => {
+    a = a < 0n ? -a : a;
+    b = b < 0n ? -b : b;
     while (b) 
         [a, b] = [b, a % b];
     
     return a;
 });
 
+/**
+ * Calculates the integer square root of the given nonnegative integer, i.e. the floor of its square root (by Newton's method).
+ */
+const isqrt = (n: bigint) => {
+    if (n < 2n) return n;
+
+    let [x, y] = [n, (n + 1n) / 2n];
+
+    while (y < x)
+        [x, y] = [y, (y + n / y) / 2n];
+
+    return x;
+};
+
+/**
+ * The magnitude beyond which integers are scaled down before converting them to floating point (which overflows at 2^1024).
+ */
+const FLOAT_LIMIT = 2n ** 1000n;
+
+/**
+ * Converts the given integers to floating point, all scaled down by the same power of 2 if any of them would overflow,
+ * so that their ratios are preserved.
+ * @param nums A sequence of integers.
+ * @returns The (scaled) floating point values of the sequence.
+ */
+const floats = (...nums: bigint[]) => {
+    const max = nums.reduce((m, n) => n > m ? n : -n > m ? -n : m, 0n);
+    const excess = max < FLOAT_LIMIT ? 0n : BigInt(max.toString(2).length - 1000);
+
+    return nums.map(n => Number(n >> excess));
+};
+
+/**
+ * Spreads the coefficients of a number over the powers of ζ_2n onto the powers of ζ_2m (m >= n),
+ * using ζ_2n = ζ_2m^(m/n).
+ * @param coefficients The `n` coefficients of the number (`n` a power of 2).
+ * @param length The number `m` of coefficients to spread them over (a multiple of `n`).
+ * @returns The coefficients of the same number over the powers of ζ_2m.
+ */
+const lift = (coefficients: readonly bigint[], length: number) => {
+    const lifted: bigint[] = Array(length).fill(0n);
+
+    for (let k = 0; k < coefficients.length; k++)
+        lifted[k * length / coefficients.length] = coefficients[k];
+
+    return lifted;
+};
+
+/**
+ * Multiplies two numbers given through their (equally many) coefficients over the powers of ζ_2n,
+ * i.e. two polynomials modulo ζ_2n^n + 1 = 0.
+ * @param p The coefficients of the first factor.
+ * @param q The coefficients of the second factor.
+ * @returns The coefficients of the product.
+ */
+const convolve = (p: readonly bigint[], q: readonly bigint[]) => {
+    const prod: bigint[] = Array(p.length).fill(0n);
+
+    for (let i = 0; i < p.length; i++) if (p[i] !== 0n)
+        for (let j = 0; j < q.length; j++)
+        {
+            // powers beyond n wrap around negated
+            if (i + j < p.length) prod[i + j] += p[i] * q[j];
+            else prod[i + j - p.length] -= p[i] * q[j];
+        }
+
+    return prod;
+};
+
+/**
+ * Finds the integral inverse of a (nonzero) number over the powers of ζ_2n, by repeatedly multiplying it
+ * with its conjugate under ζ_2n -> -ζ_2n, which yields a number over the powers of ζ_n, down to a rational.
+ * @param q The coefficients of the number to invert.
+ * @returns The coefficients `y` and the integer `m` such that `q * y = m`.
+ */
+const invert = (q: readonly bigint[]): [bigint[], bigint] => {
+    if (q.length === 1) return [[1n], q[0]];
+
+    const conjugate = q.map((c, k) => k % 2 === 0 ? c : -c);
+    const [y, m] = invert(convolve(q, conjugate).filter((_, k) => k % 2 === 0));
+
+    return [convolve(conjugate, lift(y, q.length)), m];
+};
+
 /**
  * Convenience function to set an `element` into a lookup table and also return it in a single line.
  * @param map The lookup table to inform.
@@ -26,7 +114,7 @@ const gcd = (...nums: number[]) => nums.reduce((a, b) => {
  * @param element The element to save inside the lookup table.
  * @returns The `element` as is.
  */
-export function mapSetReturn<T> (map: Map<string, T>, key: string, element: T): T
+export function mapSetReturn<K, T> (map: Map<K, T>, key: K, element: T): T
 {
     map.set(key, element);
     return element;
@@ -36,29 +124,48 @@ export function mapSetReturn<T> (map: Map<string, T>, key: string, element: T):
  * A representation of a complex number with the format
  * (A + B/sqrt(2) + Cj + D/sqrt(2)) / E, where A, B, C, D, E are all integers,
  * and j is the imaginary unit.
+ * 
+ * Numbers of the wider cyclotomic fields Q(ζ_N), with N = 2^n > 8 and ζ_N = e^(2πj/N), are instead kept exact as
+ * (Z_0 + Z_1 ζ_N + ... + Z_{N/2-1} ζ_N^(N/2-1)) / E, for integer Z_k, over the smallest N that holds them
+ * (e.g. the phases of the QFT). The two formats never overlap, so every exact number has a single representation.
+ * 
+ * The integers are kept as `bigint`s, so that they never overflow however deep the arithmetic goes (e.g. long chains
+ * of T and H gates, which grow the denominator without bound). They can be passed as either `bigint`s or `number`s, 
+ * in which case unsafe integers (beyond `Number.MAX_SAFE_INTEGER`) are rejected, as they have already lost precision.
+ * 
+ * Values that do not fit either format (i.e. if any of the scalars is not an integer) are instead kept
+ * in floating point, as A + Cj, and are identified with any previously saved number within `Complex.TOLERANCE`.
  */
 export class Complex
 {
     /**
      * The rational scalar of the real part.
      */
-    private readonly A: number;
+    private readonly A: bigint;
     /**
      * The irrational scalar of the real part.
      */
-    private readonly B: number;
+    private readonly B: bigint;
     /**
      * The rational scalar of the imaginary part.
      */
-    private readonly C: number;
+    private readonly C: bigint;
     /**
      * The irrational scalar of the imaginary part.
      */
-    private readonly D: number;
+    private readonly D: bigint;
     /**
      * The global denominator.
      */
-    private readonly E: number;
+    private readonly E: bigint;
+    /**
+     * The scalars of the powers of ζ_N, for N = 2 * Z.length, if `this` lies outside Q(ζ_8); empty otherwise.
+     */
+    private readonly Z: readonly bigint[];
+    /**
+     * The real and imaginary part, if `this` is kept in floating point; `undefined` otherwise.
+     */
+    private readonly float?: readonly [number, number];
 
     /**
      * The unique identifier of the complex number.
@@ -71,11 +178,16 @@ export class Complex
     private static sums      = new Map<string, number>();
     private static prods     = new Map<string, number>();
     private static quots     = new Map<string, number>();
+    private static grid      = new Map<string, number[]>();  // floating point neighborhoods, for tolerance-based lookup
 
     /**
      * Floating point value of the square root of one half.
      */
     public static readonly SQRT_ONE_HALF = Math.sqrt(0.5); 
+    /**
+     * The margin of error under which two floating point values are considered equal.
+     */
+    public static readonly TOLERANCE = 1e-10;
 
     /**
      * The index of complex zero.
@@ -114,21 +226,158 @@ export class Complex
      */
     public static readonly C = 8;
 
-    constructor (a: number, b: number, c: number, d: number, e: number = 1)
+    /**
+     * Registers the number (a + b/sqrt(2) + (c + d/sqrt(2))j) / e.
+     */
+    constructor (a: Scalar, b: Scalar, c: Scalar, d: Scalar, e?: Scalar);
+    /**
+     * Registers the number (z_0 + z_1 ζ_N + ... + z_{N/2-1} ζ_N^(N/2-1)) / denominator, where N = 2 * z.length.
+     */
+    constructor (z: readonly Scalar[], denominator?: Scalar);
+    constructor (a: Scalar | readonly Scalar[], b: Scalar = 1, c: Scalar = 0, d: Scalar = 0, e: Scalar = 1)
     {
-        if (e === 0) throw new Error('Error in Complex(): Division by zero.');
+        let scalars: Scalar[];
+        let z: Scalar[] = [];
 
-        // normalize by gcd and enforce the denominator to always be positive for canonicity
-        const f = gcd(a, b, c, d, e) * (e < 0 ? -1 : 1);
-        [this.A, this.B, this.C, this.D, this.E] = [a / f, b / f, c / f, d / f, e / f];
-        
-        const i = Complex.complex2i.get(this.toString());
+        if (typeof a === 'object')
+        {
+            if (a.length < 1 || !Number.isInteger(Math.log2(a.length)))
+                throw new Error('Error in Complex(): The number of coefficients must be a power of 2.');
+
+            [scalars, z, e] = [[0, 0, 0, 0], [...a], b];
+        }
+        else scalars = [a, b, c, d];
+
+        for (const scalar of [...scalars, ...z, e]) if (typeof scalar === 'number')
+        {
+            if (!Number.isFinite(scalar)) 
+                throw new Error('Error in Complex(): Non-finite value passed.');
+
+            if (Number.isInteger(scalar) && !Number.isSafeInteger(scalar))
+                throw new Error('Error in Complex(): Unsafe integer passed, use a bigint instead.');
+        }
+
+        if (Number(e) === 0) throw new Error('Error in Complex(): Division by zero.');
+
+        if (![...scalars, ...z, e].every(scalar => typeof scalar === 'bigint' || Number.isInteger(scalar)))
+        {
+            // not representable exactly, fall back to floating point
+            const [w, x, y, v, u] = [...scalars, e].map(Number);
+            const re = (w + x * Complex.SQRT_ONE_HALF + z.reduce<number>((sum, coefficient, k) => sum + Number(coefficient) * Math.cos(Math.PI * k / z.length), 0)) / u;
+            const im = (y + v * Complex.SQRT_ONE_HALF + z.reduce<number>((sum, coefficient, k) => sum + Number(coefficient) * Math.sin(Math.PI * k / z.length), 0)) / u;
+
+            if (!Number.isFinite(re) || !Number.isFinite(im)) 
+                throw new Error('Error in Complex(): Non-finite value passed.');
+
+            [this.A, this.B, this.C, this.D, this.E, this.Z, this.float] = [0n, 0n, 0n, 0n, 1n, [], [re, im]];
+        }
+        else
+        {
+            let [w, x, y, v, u] = [...scalars, e].map(BigInt);
+            let zs = z.map(BigInt);
+
+            if (zs.length > 0)
+            {
+                // descend to the smallest field holding the number, i.e. while only even powers of ζ_N appear
+                while (zs.length > 1 && zs.every((coefficient, k) => k % 2 === 0 || coefficient === 0n))
+                    zs = zs.filter((_, k) => k % 2 === 0);
+                
+                if (zs.length <= 4)
+                {
+                    // back to the format over Q(ζ_8), as ζ_8 = (1 + j)/sqrt(2)
+                    const [z0, z1, z2, z3] = lift(zs, 4);
+                    [w, x, y, v, zs] = [z0, z1 - z3, z2, z1 + z3, []];
+                }
+            }
+
+            // normalize by gcd and enforce the denominator to always be positive for canonicity
+            const f = gcd(w, x, y, v, u, ...zs) * (u < 0n ? -1n : 1n);
+
+            [this.A, this.B, this.C, this.D, this.E, this.Z] = [w / f, x / f, y / f, v / f, u / f, zs.map(coefficient => coefficient / f)];
+        }
+
+        const i = this.isNumeric() ? Complex.nearest(this.re(), this.im()) : Complex.complex2i.get(this.toString());
 
         if (i !== undefined) return Complex.i2complex[i];
 
         Complex.i2complex.push(this);
-        Complex.complex2i.set(this.toString(), Complex.i2complex.length - 1);
         this.index = Complex.i2complex.length - 1;
+
+        // floating point numbers are only found by tolerance, so they never shadow the exact number of the same serialization
+        if (!this.isNumeric()) Complex.complex2i.set(this.toString(), this.index);
+
+        // every number is kept in its neighborhood for floating point lookups
+        const key = Complex.cell(this.re(), this.im());
+
+        Complex.grid.set(key, [...Complex.grid.get(key) ?? [], this.index]);
+    }
+
+    /**
+     * Serializes the floating point neighborhood (of side `Complex.TOLERANCE`) the given value falls in.
+     */
+    private static cell (re: number, im: number, dre: number = 0, dim: number = 0): string
+    {
+        return `${Math.round(re / Complex.TOLERANCE) + dre};${Math.round(im / Complex.TOLERANCE) + dim}`;
+    }
+
+    /**
+     * Searches for a saved `Complex` within `Complex.TOLERANCE` of the given value. Exact numbers are preferred,
+     * and the closest one is picked otherwise.
+     * @param re The real part of the value.
+     * @param im The imaginary part of the value.
+     * @returns The index of the found `Complex`, or `undefined` if there is none.
+     */
+    private static nearest (re: number, im: number): number | undefined
+    {
+        let [found, distance] = [undefined as number | undefined, Infinity];
+
+        // a match can only lie inside the neighborhood of the value or the ones adjacent to it
+        for (const dre of [0, -1, 1]) for (const dim of [0, -1, 1]) for (const i of Complex.grid.get(Complex.cell(re, im, dre, dim)) ?? [])
+        {
+            const [dx, dy] = [Math.abs(Complex.i2complex[i].re() - re), Math.abs(Complex.i2complex[i].im() - im)];
+
+            if (dx > Complex.TOLERANCE || dy > Complex.TOLERANCE) continue;
+
+            // exact numbers rank before any floating point one
+            const d = Math.hypot(dx, dy) + (Complex.i2complex[i].isNumeric() ? 1 : 0);
+
+            if (d < distance) [found, distance] = [i, d];
+        }
+
+        return found;
+    }
+
+    /**
+     * Checks whether `this` is kept in floating point, instead of the exact format.
+     * @returns `true` if `this` is not exact.
+     */
+    public isNumeric (): boolean
+    {
+        return this.float !== undefined;
+    }
+
+    /**
+     * Expresses (the exact) `this` over the powers of ζ_N, for N = 2 * `length`.
+     * @param length The number of coefficients, at least as many as `this` occupies (and at least 4).
+     * @returns The coefficients of the numerator and the denominator.
+     */
+    private cyclotomic (length: number): [bigint[], bigint]
+    {
+        if (this.Z.length > 0) return [lift(this.Z, length), this.E];
+
+        // (A + B/sqrt(2) + (C + D/sqrt(2))j) / E = (2A + (B + D)ζ_8 + 2Cζ_8^2 + (D - B)ζ_8^3) / 2E
+        return [lift([2n * this.A, this.B + this.D, 2n * this.C, this.D - this.B], length), 2n * this.E];
+    }
+
+    /**
+     * Checks whether an operation between `this` and `other` has to leave the format over Q(ζ_8), i.e.
+     * whether one of them lies in a wider cyclotomic field.
+     * @param other The other operand.
+     * @returns The number of coefficients of the common field of both operands, or 0 if the format over Q(ζ_8) suffices.
+     */
+    private common (other: Complex): number
+    {
+        return this.Z.length > 0 || other.Z.length > 0 ? Math.max(this.Z.length, other.Z.length) : 0;
     }
 
     /**
@@ -144,6 +393,19 @@ export class Complex
         // if (other.index === 0) return this; /* this doesnt occur because through sorting, 0 is always the first element */
         if (this.index  === 0) return other;
 
+        if (this.isNumeric() || other.isNumeric())
+            return new Complex(this.re() + other.re(), 0, this.im() + other.im(), 0);
+
+        const length = this.common(other);
+
+        if (length > 0)
+        {
+            const [p, e] = this.cyclotomic(length);
+            const [q, f] = other.cyclotomic(length);
+
+            return new Complex(p.map((coefficient, k) => coefficient * f + q[k] * e), e * f);
+        }
+
         return new Complex(
             this.E * other.A + other.E * this.A,
             this.E * other.B + other.E * this.B,
@@ -165,14 +427,29 @@ export class Complex
         // skip trivial calculations (mulitplying with 0 or 1)
         if (this.index  === 0 || other.index === 1) return this;
         if (other.index === 0 || this.index  === 1) return other;
+
+        if (this.isNumeric() || other.isNumeric())
+            return new Complex(
+                this.re() * other.re() - this.im() * other.im(), 0, 
+                this.re() * other.im() + this.im() * other.re(), 0);
+
+        const length = this.common(other);
+
+        if (length > 0)
+        {
+            const [p, e] = this.cyclotomic(length);
+            const [q, f] = other.cyclotomic(length);
+
+            return new Complex(convolve(p, q), e * f);
+        }
         
         // just do the math bro lol
         return new Complex(
-            2 *  this.A * other.A +     other.B * this.B  - 2 * this.C * other.C - other.D * this.D,
-            2 * (this.A * other.B +     other.A * this.B  -     this.C * other.D - other.C * this.D),
-            2 *  this.A * other.C + 2 * other.A * this.C  +     this.B * other.D + other.B * this.D,
-            2 * (this.A * other.D +     other.A * this.D  +     this.B * other.C + other.B * this.C),
-            2 *  this.E * other.E
+            2n *  this.A * other.A +      other.B * this.B  - 2n * this.C * other.C - other.D * this.D,
+            2n * (this.A * other.B +      other.A * this.B  -      this.C * other.D - other.C * this.D),
+            2n *  this.A * other.C + 2n * other.A * this.C  +      this.B * other.D + other.B * this.D,
+            2n * (this.A * other.D +      other.A * this.D  +      this.B * other.C + other.B * this.C),
+            2n *  this.E * other.E
         );
     }
 
@@ -192,19 +469,55 @@ export class Complex
         // if dividing by itself, terminate early
         if (this.index === other.index) return Complex.i2complex[Complex.ONE];
 
-        const temp1 = 2 * (other.A * other.A + other.C * other.C) + other.B * other.B + other.D * other.D;
+        if (this.isNumeric() || other.isNumeric())
+        {
+            const mag2 = other.mag2();
+
+            return new Complex(
+                (this.re() * other.re() + this.im() * other.im()) / mag2, 0,
+                (this.im() * other.re() - this.re() * other.im()) / mag2, 0);
+        }
+
+        const length = this.common(other);
+
+        if (length > 0)
+        {
+            // (p/e) / (q/f) = p * f * y / (e * m), where q * y = m
+            const [p, e] = this.cyclotomic(length);
+            const [q, f] = other.cyclotomic(length);
+            const [y, m] = invert(q);
+
+            return new Complex(convolve(p, y).map(coefficient => coefficient * f), e * m);
+        }
+
+        const temp1 = 2n * (other.A * other.A + other.C * other.C) + other.B * other.B + other.D * other.D;
         const temp2 = other.A * other.B + other.C * other.D;
-        const temp3 = 2 * (this.A * other.A + this.C * other.C) + this.B * other.B + this.D * other.D;
-        const temp4 = 2 * (this.A * other.B + this.B * other.A  + this.C * other.D + this.D * other.D);
-        const temp5 = 2 * (this.C * other.A - this.A * other.C) + this.D * other.B - this.B * other.D;
-        const temp6 = 2 * (this.C * other.B + this.D * other.A  - this.A * other.D - this.B * other.C);
+        const temp3 = 2n * (this.A * other.A + this.C * other.C) + this.B * other.B + this.D * other.D;
+        const temp4 = 2n * (this.A * other.B + this.B * other.A  + this.C * other.D + this.D * other.C);
+        const temp5 = 2n * (this.C * other.A - this.A * other.C) + this.D * other.B - this.B * other.D;
+        const temp6 = 2n * (this.C * other.B + this.D * other.A  - this.A * other.D - this.B * other.C);
 
         return new Complex(
-            other.E * (temp1 * temp3 - 2 * temp2 * temp4),
-            other.E * (temp1 * temp4 - 4 * temp2 * temp3),
-            other.E * (temp1 * temp5 - 2 * temp2 * temp6),
-            other.E * (temp1 * temp6 - 4 * temp2 * temp5),
-            this.E  * (temp1 * temp1 - 8 * temp2 * temp2));
+            other.E * (temp1 * temp3 - 2n * temp2 * temp4),
+            other.E * (temp1 * temp4 - 4n * temp2 * temp3),
+            other.E * (temp1 * temp5 - 2n * temp2 * temp6),
+            other.E * (temp1 * temp6 - 4n * temp2 * temp5),
+            this.E  * (temp1 * temp1 - 8n * temp2 * temp2));
+    }
+
+    /**
+     * The complex conjugate of `this`, negating the imaginary part without leaving the exact format.
+     * @returns The conjugate `Complex` number.
+     */
+    public conj (): Complex
+    {
+        if (this.float) return new Complex(this.float[0], 0, -this.float[1], 0);
+
+        // ζ_N^-k = -ζ_N^(N/2-k)
+        if (this.Z.length > 0)
+            return new Complex(this.Z.map((coefficient, k) => k === 0 ? coefficient : -this.Z[this.Z.length - k]), this.E);
+
+        return new Complex(this.A, this.B, -this.C, -this.D, this.E);
     }
 
     /**
@@ -213,7 +526,18 @@ export class Complex
      */
     public re (): number
     {
-        return (this.A + this.B * Complex.SQRT_ONE_HALF) / this.E;
+        if (this.float) return this.float[0];
+
+        if (this.Z.length > 0)
+        {
+            const [e, ...z] = floats(this.E, ...this.Z);
+
+            return z.reduce((sum, coefficient, k) => sum + coefficient * Math.cos(Math.PI * k / z.length), 0) / e;
+        }
+
+        const [a, b, e] = floats(this.A, this.B, this.E);
+
+        return (a + b * Complex.SQRT_ONE_HALF) / e;
     }
 
     /**
@@ -222,7 +546,18 @@ export class Complex
      */
     public im (): number
     {
-        return (this.C + this.D * Complex.SQRT_ONE_HALF) / this.E;
+        if (this.float) return this.float[1];
+
+        if (this.Z.length > 0)
+        {
+            const [e, ...z] = floats(this.E, ...this.Z);
+
+            return z.reduce((sum, coefficient, k) => sum + coefficient * Math.sin(Math.PI * k / z.length), 0) / e;
+        }
+
+        const [c, d, e] = floats(this.C, this.D, this.E);
+
+        return (c + d * Complex.SQRT_ONE_HALF) / e;
     }
 
     /**
@@ -234,15 +569,65 @@ export class Complex
         return this.re() ** 2 + this.im() ** 2;
     }
 
+    /**
+     * The principal square root of the complex number. It stays exact for the nonnegative rationals whose root 
+     * lies in Q(sqrt(2)) (e.g. the probabilities 1/2 or 1/8), and falls back to floating point otherwise.
+     * @returns The square root `Complex` number.
+     */
+    public sqrt (): Complex
+    {
+        if (!this.float && this.Z.length === 0 && this.B === 0n && this.C === 0n && this.D === 0n && this.A >= 0n)
+        {
+            // sqrt(A/E) = sqrt(AE)/E, which is exact if AE is a square, or twice a square as sqrt(2) = 2/sqrt(2)
+            const n = this.A * this.E;
+            const [s, t] = [isqrt(n), isqrt(n / 2n)];
+
+            if (s * s === n) return new Complex(s, 0n, 0n, 0n, this.E);
+            if (2n * t * t === n) return new Complex(0n, 2n * t, 0n, 0n, this.E);
+        }
+
+        const [r, phi] = [Math.sqrt(Math.hypot(this.re(), this.im())), Math.atan2(this.im(), this.re()) / 2];
+
+        return new Complex(r * Math.cos(phi), 0, r * Math.sin(phi), 0);
+    }
+
     /**
      * Serializes `this` Complex number. Useful for accessing caches.
-     * @returns A serialization of the format `"A;B;C;D;E"`.
+     * @returns A serialization of the format `"A;B;C;D;E"`, or `"Z_0;...;Z_{N/2-1};E"` outside Q(ζ_8).
      */
     public toString(): string
     {
+        if (this.float) return `${this.float[0]};0;${this.float[1]};0;1`;
+
+        if (this.Z.length > 0) return `${this.Z.join(';')};${this.E}`;
+
         return `${this.A};${this.B};${this.C};${this.D};${this.E}`;
     }
 
+    /**
+     * Registers the root of unity e^(2πj * power / order) in the exact format.
+     * @param power The (integer) power of the primitive root.
+     * @param order The order of the primitive root, a power of 2.
+     * @returns The index of the root.
+     */
+    public static root (power: number, order: number): number
+    {
+        if (!Number.isInteger(power))
+            throw new Error('Error in Complex.root(): The power must be an integer.');
+        
+        if (order < 1 || !Number.isInteger(Math.log2(order)))
+            throw new Error('Error in Complex.root(): The order must be a power of 2.');
+
+        const z: number[] = Array(Math.max(order / 2, 1)).fill(0);
+        const k = (power % order + order) % order;
+        
+        // ζ_N^k = -ζ_N^(k - N/2)
+        if (k < z.length) z[k] = 1;
+        else z[k - z.length] = -1;
+
+        return new Complex(z).index;
+    }
+
     /**
      * Checks whether the given `index` corresponds to a saved `Complex`.
      * @param index The index of the sought-after `Complex`.
@@ -369,6 +754,7 @@ export class Complex
         Complex.sums  = new Map();
         Complex.prods = new Map();
         Complex.quots = new Map();
+        Complex.grid  = new Map();
 
         new Complex( 0, 0, 0, 0); // 0+0j                 -> ZERO
         new Complex( 1, 0, 0, 0); // 1+0j                 -> ONE
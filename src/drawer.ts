@@ -0,0 +1,120 @@
+/*
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/.
+ */
+
+import type { Instruction } from "./circuit";
+import { SWAP, X } from "./gates";
+
+/**
+ * The glyphs of a single operation inside a drawn column, keyed by qubit index,
+ * along with the span of wires it connects.
+ */
+type Cell = { glyphs: Map<number, string>, top: number, bottom: number };
+
+/**
+ * Resolves the glyphs that depict `instruction` on each of its qubits.
+ * @param instruction The operation to depict.
+ * @returns The `Cell` of the operation.
+ */
+function cell ({ gate, targets, controls, ctrlState, condition }: Instruction): Cell
+{
+    const glyphs = new Map<number, string>();
+
+    for (const [i, control] of controls.entries())
+        glyphs.set(control, ctrlState[i] === '0' ? '○' : '●');
+
+    // classically conditioned operations are always boxed, with the expected value of each classical bit attached
+    const suffix = condition ? ' if ' + condition.clbits.map((c, i) => `c${c}=${Math.floor(condition.value / 2 ** i) % 2}`).join(',') : '';
+
+    for (const [j, target] of targets.entries())
+    {
+        // the targets of multi-qubit gates are told apart by their position in the gate matrix (except for the symmetric SWAP)
+        const label = gate.label() + (targets.length > 1 && !(gate instanceof SWAP) ? '₀₁₂'[j] : '');
+
+        glyphs.set(target,
+            condition                               ? `┤${label}${suffix}├` :
+            gate instanceof SWAP                    ? '×' :  // swaps are depicted as crosses on both targets
+            gate instanceof X && controls.length > 0 ? '⊕' :  // controlled NOTs are depicted as XORs
+                                                      `┤${label}├`);
+    }
+
+    const qubits = [...glyphs.keys()];
+
+    return { glyphs, top: Math.min(...qubits), bottom: Math.max(...qubits) };
+}
+
+/**
+ * Renders the given instruction log as a text drawing, one wire per qubit (qubit 0 on top).
+ *
+ * Operations are grouped in the same columns that `QuantumCircuit.depth()` counts, so that classically conditioned
+ * operations come after the measurements they read. Operations of the same column whose vertical connections would
+ * overlap are drawn next to each other.
+ * @param qubits The width of the circuit.
+ * @param instructions The operations to draw, in order.
+ * @returns The multiline drawing.
+ */
+export function drawCircuit (qubits: number, instructions: readonly Instruction[]): string
+{
+    const buckets: number[] = Array(qubits).fill(0);
+    const written: number[] = [];  // the column after the last measurement into each classical bit
+    const read: number[] = [];     // the column after the last condition on each classical bit
+    const columns: Cell[][][] = [];
+
+    // place every operation in the first column after all its qubits and classical bits are free (like depth() does)
+    for (const instruction of instructions)
+    {
+        const involved = [...instruction.targets, ...instruction.controls];
+        const [reads, writes] = [instruction.condition?.clbits ?? [], instruction.clbits ?? []];
+        const column = Math.max(
+            ...involved.map(i => buckets[i]), 
+            ...reads.map(c => written[c] ?? 0), 
+            ...writes.map(c => Math.max(written[c] ?? 0, read[c] ?? 0)));
+
+        for (const i of involved) buckets[i] = column + 1;
+        for (const c of reads) read[c] = Math.max(read[c] ?? 0, column + 1);
+        for (const c of writes) written[c] = column + 1;
+
+        // inside the column, put the operation in the first subcolumn it does not overlap with
+        const current = columns[column] ??= [];
+        const c = cell(instruction);
+        const free = current.find(sub => sub.every(other => other.bottom < c.top || other.top > c.bottom));
+
+        if (free) free.push(c);
+        else current.push([c]);
+    }
+
+    const labels = [...Array(qubits).keys()].map(i => `q${i}: `);
+    const pad = Math.max(...labels.map(label => label.length));
+    // even rows are wires, odd rows are the gaps between them
+    const rows = [...Array(2 * qubits - 1).keys()].map(r => r % 2 === 0 ? labels[r / 2].padStart(pad) + '─' : ' '.repeat(pad + 1));
+
+    for (const sub of columns.flat())
+    {
+        const width = Math.max(...sub.flatMap(c => [...c.glyphs.values()].map(glyph => glyph.length)));
+        const axis = Math.floor((width - 1) / 2);  // the position of the vertical connections inside the subcolumn
+        const chunks = rows.map((_, r) => Array(width).fill(r % 2 === 0 ? '─' : ' '));
+
+        for (const { glyphs, top, bottom } of sub)
+        {
+            // connect the participating qubits, crossing over the uninvolved wires
+            for (let r = 2 * top + 1; r < 2 * bottom; r++)
+                chunks[r][axis] = r % 2 === 0 ? '┼' : '│';
+
+            // center the glyph of each qubit on the axis
+            for (const [q, glyph] of glyphs)
+            {
+                const start = axis - Math.floor((glyph.length - 1) / 2);
+
+                for (let k = 0; k < glyph.length; k++)
+                    chunks[2 * q][start + k] = glyph[k];
+            }
+        }
+
+        for (const [r, chunk] of chunks.entries())
+            rows[r] += chunk.join('') + (r % 2 === 0 ? '─' : ' ');
+    }
+
+    return rows.map(row => row.trimEnd()).join('\n');
+}
@@ -5,6 +5,94 @@
  */
 
 import { Complex } from "./complex";
+import { Angle, bindAngle, negate, Parameter, symbols } from "./parameter";
+
+/**
+ * The finest power-of-two grid that angles are matched against (enough for the QFT on 16 qubits). The exact format
+ * spans order/2 coefficients, so finer angles fall back to floating point.
+ */
+const MAX_ORDER = 2 ** 16;
+
+/**
+ * Registers the complex number e^(j*phi). Arguments that are a multiple of 2pi/2^k give roots of unity of order 2^k,
+ * which are kept in the exact format with the smallest such order, and all others fall back to floating point.
+ * @param phi The argument of the number.
+ * @returns The index of the number.
+ */
+function phase (phi: number): number
+{
+    const steps = phi / (2 * Math.PI) * MAX_ORDER;
+
+    if (Math.abs(steps - Math.round(steps)) > 1e-7)
+        return new Complex(Math.cos(phi), 0, Math.sin(phi), 0).index;
+
+    let [power, order] = [Math.round(steps), MAX_ORDER];
+
+    // reduce power/order to lowest terms, so that the number only spans the coefficients it needs
+    while (order > 1 && power % 2 === 0)
+        [power, order] = [power / 2, order / 2];
+
+    return Complex.root(power, order);
+}
+
+/**
+ * Registers the cosine and sine of half the given angle, i.e. the magnitudes of a rotation matrix.
+ * They are kept exact whenever e^(j*theta/2) is.
+ * @param theta The angle of the rotation.
+ * @returns The indices of cos(theta/2) and sin(theta/2).
+ */
+function halves (theta: number): [number, number]
+{
+    const [u, v] = [phase(theta / 2), phase(-theta / 2)];
+
+    if (Complex.get(u)!.isNumeric())
+        return [new Complex(Math.cos(theta / 2), 0, 0, 0).index, new Complex(Math.sin(theta / 2), 0, 0, 0).index];
+
+    // cos(x) = (e^jx + e^-jx)/2 and sin(x) = (e^jx - e^-jx)/2j
+    return [
+        Complex.mul(Complex.add(u, v), new Complex(1, 0, 0, 0, 2).index),
+        Complex.mul(Complex.add(u, Complex.mul(Complex.NEG_ONE, v)), new Complex(0, 0, -1, 0, 2).index)
+    ];
+}
+
+/**
+ * Resolves the value of an angle, demanding that it is bound.
+ * @param gate The name of the calling gate, for error reporting.
+ * @param angle The angle to resolve.
+ * @returns The value of the angle in radians.
+ */
+function value (gate: string, angle: Angle): number
+{
+    if (typeof angle !== 'number') 
+        throw new Error(`Error in ${gate}.matrix(): Unbound parameter '${angle.name}'.`);
+
+    return angle;
+}
+
+/**
+ * Formats an angle for display, as a multiple of pi when it is one of pi/8 (and with 4 decimal places otherwise).
+ * Symbolic angles are displayed as is.
+ * @param angle The angle in radians.
+ * @returns The formatted angle.
+ */
+function formatAngle (angle: Angle): string
+{
+    if (typeof angle !== 'number') return angle.toString();
+
+    const eighths = angle / (Math.PI / 8);
+
+    if (Math.abs(eighths - Math.round(eighths)) > 1e-9)
+        return `${Number(angle.toFixed(4))}`;
+
+    // reduce k/8 to lowest terms
+    let [num, den] = [Math.round(eighths), 8];
+
+    while (num % 2 === 0 && den > 1) { num /= 2; den /= 2; }
+
+    const coefficient = num === 1 ? '' : num === -1 ? '-' : `${num}`;
+
+    return num === 0 ? '0' : `${coefficient}π` + (den > 1 ? `/${den}` : '');
+}
 
 /**
  * A unitary transformation of a qubit's state.
@@ -14,14 +102,59 @@ export class Gate
     protected constructor () {} // Gate should not be create-able by third parties
 
     /**
-     * Returns the unitary matrix of the `Gate` as a flattened array: `[top left, bottom left, top right, bottom right]`.
+     * Returns the unitary matrix of the `Gate` as a flattened array of `Complex` indices, in row-major order
+     * (`[top left, top right, bottom left, bottom right]` for single-qubit gates).
+     * 
+     * For a `Gate` on k qubits, the matrix is 2^k x 2^k, and bit j of a row (column) index is the state of its jth target.
      */
     /* c8 ignore start */
     public matrix (): number[] 
     { 
         throw new Error(`${this.constructor.name} class doesn\'t implement matrix().`); 
     }
+
+    /**
+     * Returns the display name of the `Gate`, as used in circuit drawings.
+     */
+    public label (): string
+    {
+        throw new Error(`${this.constructor.name} class doesn\'t implement label().`); 
+    }
+
+    /**
+     * Returns the conjugate transpose (adjoint) of the `Gate`, i.e. the `Gate` that undoes it.
+     */
+    public adjoint (): Gate
+    {
+        throw new Error(`${this.constructor.name} class doesn\'t implement adjoint().`); 
+    }
     /* c8 ignore end */
+
+    /**
+     * Returns the number of qubits the `Gate` acts on.
+     */
+    public width (): number
+    {
+        return 1;
+    }
+
+    /**
+     * Returns the unbound symbols the `Gate` depends upon (none, unless the `Gate` is parameterized).
+     */
+    public parameters (): Parameter[]
+    {
+        return [];
+    }
+
+    /**
+     * Substitutes the given values into the symbolic angles of the `Gate`.
+     * @param values The values of the symbols, by name.
+     * @returns The bound `Gate` (`this` as is, unless the `Gate` is parameterized).
+     */
+    public bind (values: Readonly<Record<string, number>>): Gate
+    {
+        return this;
+    }
 }
 /**
  * A `Gate` that leaves the qubit state as is.
@@ -41,6 +174,10 @@ export class I extends Gate
     }
 
     public override matrix (): number[] { return [1, 0, 0, 1]; }
+
+    public override label (): string { return 'I'; }
+
+    public override adjoint (): Gate { return this; }
 }
 
 /**
@@ -61,6 +198,10 @@ export class X extends Gate
     }
 
     public override matrix (): number[] { return [0, 1, 1, 0]; }
+
+    public override label (): string { return 'X'; }
+
+    public override adjoint (): Gate { return this; }
 }
 
 /**
@@ -81,6 +222,10 @@ export class Y extends Gate
     }
 
     public override matrix (): number[] { return [0, Complex.NEG_I, Complex.I, 0]; }
+
+    public override label (): string { return 'Y'; }
+
+    public override adjoint (): Gate { return this; }
 }
 
 /**
@@ -101,6 +246,10 @@ export class Z extends Gate
     }
 
     public override matrix (): number[] { return [1, 0, 0, Complex.NEG_ONE]; }
+
+    public override label (): string { return 'Z'; }
+
+    public override adjoint (): Gate { return this; }
 }
 
 /**
@@ -124,6 +273,10 @@ export class H extends Gate
     { 
         return [Complex.A, Complex.A, Complex.A, Complex.NEG_A]; 
     }
+
+    public override label (): string { return 'H'; }
+
+    public override adjoint (): Gate { return this; }
 }
 
 /**
@@ -162,6 +315,14 @@ export class S extends Gate
     public override matrix (): number[] { 
         return this === S.dagSingleton ? [1, 0, 0, Complex.NEG_I] : [1, 0, 0, Complex.I]; 
     }
+
+    public override label (): string { 
+        return this === S.dagSingleton ? 'S†' : 'S'; 
+    }
+
+    public override adjoint (): Gate { 
+        return new S(this !== S.dagSingleton); 
+    }
 }
 
 /**
@@ -200,6 +361,500 @@ export class T extends Gate
     public override matrix (): number[] { 
         return this === T.dagSingleton ? [1, 0, 0, Complex.C] : [1, 0, 0, Complex.B]; 
     }
+
+    public override label (): string { 
+        return this === T.dagSingleton ? 'T†' : 'T'; 
+    }
+
+    public override adjoint (): Gate { 
+        return new T(this !== T.dagSingleton); 
+    }
+}
+
+/**
+ * The square root of the NOT gate. A quarter turn around the x-axis on the Bloch sphere, up to a global phase.
+ */
+export class SX extends Gate
+{
+    /**
+     * Singleton for the standard `SX` case.
+     */
+    private static ogSingleton: SX | null = null;
+    /**
+     * Singleton for the conjugate transpose (dagger) of `SX`.
+     */
+    private static dagSingleton: SX | null = null;
+
+    /**
+     * @param dagger if `true`, returns the conjugate transpose (dagger) of SX.
+     */
+    constructor (dagger: boolean = false)
+    {
+        if (!dagger && SX.ogSingleton)
+            return SX.ogSingleton;
+
+        if (dagger && SX.dagSingleton)
+            return SX.dagSingleton;
+
+        super();
+
+        if (dagger)
+            SX.dagSingleton = this;
+        else
+            SX.ogSingleton = this;
+    }
+
+    public override matrix (): number[] { 
+        // (1 + j)/2 and (1 - j)/2, swapped by the dagger
+        const [p, m] = [new Complex(1, 0, 1, 0, 2).index, new Complex(1, 0, -1, 0, 2).index];
+
+        return this === SX.dagSingleton ? [m, p, p, m] : [p, m, m, p]; 
+    }
+
+    public override label (): string { 
+        return this === SX.dagSingleton ? 'SX†' : 'SX'; 
+    }
+
+    public override adjoint (): Gate { 
+        return new SX(this !== SX.dagSingleton); 
+    }
+}
+
+/**
+ * A two-qubit `Gate` that exchanges the states of its targets.
+ */
+export class SWAP extends Gate
+{
+    // all SWAP gates are fundamentally the same, make them singletons.
+    private static singleton: SWAP | null = null;
+
+    constructor ()
+    {
+        if (SWAP.singleton)
+            return SWAP.singleton;
+
+        super();
+        SWAP.singleton = this;
+    }
+
+    public override matrix (): number[] 
+    { 
+        return [
+            1, 0, 0, 0,
+            0, 0, 1, 0,
+            0, 1, 0, 0,
+            0, 0, 0, 1
+        ]; 
+    }
+
+    public override label (): string { return 'SWAP'; }
+
+    public override adjoint (): Gate { return this; }
+
+    public override width (): number { return 2; }
+}
+
+/**
+ * A two-qubit `Gate` that exchanges the states of its targets, adding a phase of i to the exchanged |01> and |10> states.
+ */
+export class iSWAP extends Gate
+{
+    /**
+     * Singleton for the standard `iSWAP` case.
+     */
+    private static ogSingleton: iSWAP | null = null;
+    /**
+     * Singleton for the conjugate transpose (dagger) of `iSWAP`.
+     */
+    private static dagSingleton: iSWAP | null = null;
+
+    /**
+     * @param dagger if `true`, returns the conjugate transpose (dagger) of iSWAP.
+     */
+    constructor (dagger: boolean = false)
+    {
+        if (!dagger && iSWAP.ogSingleton)
+            return iSWAP.ogSingleton;
+
+        if (dagger && iSWAP.dagSingleton)
+            return iSWAP.dagSingleton;
+
+        super();
+
+        if (dagger)
+            iSWAP.dagSingleton = this;
+        else
+            iSWAP.ogSingleton = this;
+    }
+
+    public override matrix (): number[] 
+    { 
+        const phase = this === iSWAP.dagSingleton ? Complex.NEG_I : Complex.I;
+
+        return [
+            1, 0,     0,     0,
+            0, 0,     phase, 0,
+            0, phase, 0,     0,
+            0, 0,     0,     1
+        ]; 
+    }
+
+    public override label (): string { 
+        return this === iSWAP.dagSingleton ? 'iSWAP†' : 'iSWAP'; 
+    }
+
+    public override adjoint (): Gate { 
+        return new iSWAP(this !== iSWAP.dagSingleton); 
+    }
+
+    public override width (): number { return 2; }
+}
+
+/**
+ * The two-qubit echoed cross-resonance `Gate`, equivalent to a CNOT up to single-qubit rotations. 
+ * Its first target acts as the control of the cross-resonance interaction.
+ */
+export class ECR extends Gate
+{
+    // all ECR gates are fundamentally the same, make them singletons.
+    private static singleton: ECR | null = null;
+
+    constructor ()
+    {
+        if (ECR.singleton)
+            return ECR.singleton;
+
+        super();
+        ECR.singleton = this;
+    }
+
+    public override matrix (): number[] 
+    { 
+        const [a, ai, nai] = [Complex.A, Complex.mul(Complex.A, Complex.I), Complex.mul(Complex.A, Complex.NEG_I)];
+
+        return [
+            0,   a,  0,  ai,
+            a,   0,  nai, 0,
+            0,   ai, 0,  a,
+            nai, 0,  a,  0
+        ]; 
+    }
+
+    public override label (): string { return 'ECR'; }
+
+    public override adjoint (): Gate { return this; }
+
+    public override width (): number { return 2; }
+}
+
+/**
+ * A rotation of `theta` radians around the x-axis on the Bloch sphere.
+ */
+export class RX extends Gate
+{
+    /**
+     * @param theta The angle of the rotation, in radians.
+     */
+    constructor (public readonly theta: Angle) { super(); }
+
+    public override matrix (): number[] 
+    { 
+        const theta = value('RX', this.theta);
+        const [c, s] = halves(theta);
+
+        return [c, Complex.mul(Complex.NEG_I, s), Complex.mul(Complex.NEG_I, s), c]; 
+    }
+
+    public override label (): string { return `RX(${formatAngle(this.theta)})`; }
+
+    public override adjoint (): Gate { return new RX(negate(this.theta)); }
+
+    public override parameters (): Parameter[] { return symbols(this.theta); }
+
+    public override bind (values: Readonly<Record<string, number>>): Gate { return new RX(bindAngle(this.theta, values)); }
+}
+
+/**
+ * A rotation of `theta` radians around the y-axis on the Bloch sphere.
+ */
+export class RY extends Gate
+{
+    /**
+     * @param theta The angle of the rotation, in radians.
+     */
+    constructor (public readonly theta: Angle) { super(); }
+
+    public override matrix (): number[] 
+    { 
+        const theta = value('RY', this.theta);
+        const [c, s] = halves(theta);
+
+        return [c, Complex.mul(Complex.NEG_ONE, s), s, c]; 
+    }
+
+    public override label (): string { return `RY(${formatAngle(this.theta)})`; }
+
+    public override adjoint (): Gate { return new RY(negate(this.theta)); }
+
+    public override parameters (): Parameter[] { return symbols(this.theta); }
+
+    public override bind (values: Readonly<Record<string, number>>): Gate { return new RY(bindAngle(this.theta, values)); }
+}
+
+/**
+ * A rotation of `theta` radians around the z-axis on the Bloch sphere.
+ */
+export class RZ extends Gate
+{
+    /**
+     * @param theta The angle of the rotation, in radians.
+     */
+    constructor (public readonly theta: Angle) { super(); }
+
+    public override matrix (): number[] 
+    { 
+        const theta = value('RZ', this.theta);
+
+        return [phase(-theta / 2), 0, 0, phase(theta / 2)]; 
+    }
+
+    public override label (): string { return `RZ(${formatAngle(this.theta)})`; }
+
+    public override adjoint (): Gate { return new RZ(negate(this.theta)); }
+
+    public override parameters (): Parameter[] { return symbols(this.theta); }
+
+    public override bind (values: Readonly<Record<string, number>>): Gate { return new RZ(bindAngle(this.theta, values)); }
+}
+
+/**
+ * A phase shift of `lambda` radians on the |1> state. Equal to `RZ(lambda)` up to a global phase.
+ */
+export class P extends Gate
+{
+    /**
+     * @param lambda The angle of the phase shift, in radians.
+     */
+    constructor (public readonly lambda: Angle) { super(); }
+
+    public override matrix (): number[] 
+    { 
+        return [1, 0, 0, phase(value('P', this.lambda))]; 
+    }
+
+    public override label (): string { return `P(${formatAngle(this.lambda)})`; }
+
+    public override adjoint (): Gate { return new P(negate(this.lambda)); }
+
+    public override parameters (): Parameter[] { return symbols(this.lambda); }
+
+    public override bind (values: Readonly<Record<string, number>>): Gate { return new P(bindAngle(this.lambda, values)); }
+}
+
+/**
+ * The generic single-qubit `Gate`, parameterized by the three Euler angles `theta`, `phi` and `lambda`
+ * (in the OpenQASM convention).
+ */
+export class U extends Gate
+{
+    /**
+     * @param theta The rotation angle, in radians.
+     * @param phi The phase angle applied after the rotation, in radians.
+     * @param lambda The phase angle applied before the rotation, in radians.
+     */
+    constructor (public readonly theta: Angle, public readonly phi: Angle, public readonly lambda: Angle) { super(); }
+
+    public override matrix (): number[] 
+    { 
+        const [theta, phi, lambda] = [value('U', this.theta), value('U', this.phi), value('U', this.lambda)];
+        const [c, s] = halves(theta);
+
+        return [
+            c,                           Complex.mul(Complex.NEG_ONE, s, phase(lambda)), 
+            Complex.mul(s, phase(phi)),  Complex.mul(c, phase(phi + lambda))
+        ]; 
+    }
+
+    public override label (): string 
+    { 
+        return `U(${formatAngle(this.theta)},${formatAngle(this.phi)},${formatAngle(this.lambda)})`; 
+    }
+
+    public override adjoint (): Gate { return new U(negate(this.theta), negate(this.lambda), negate(this.phi)); }
+
+    public override parameters (): Parameter[] { return symbols(this.theta, this.phi, this.lambda); }
+
+    public override bind (values: Readonly<Record<string, number>>): Gate 
+    { 
+        return new U(bindAngle(this.theta, values), bindAngle(this.phi, values), bindAngle(this.lambda, values)); 
+    }
+}
+
+/**
+ * A projective measurement of a qubit in the computational basis. Not a unitary transformation; 
+ * it only marks where a measurement takes place in a circuit.
+ */
+export class Measure extends Gate
+{
+    // all measurements are fundamentally the same, make them singletons.
+    private static singleton: Measure | null = null;
+
+    constructor ()
+    {
+        if (Measure.singleton)
+            return Measure.singleton;
+
+        super();
+        Measure.singleton = this;
+    }
+
+    public override label (): string { return 'M'; }
+
+    public override adjoint (): Gate 
+    { 
+        throw new Error('Error in Measure.adjoint(): Measurements are not reversible.'); 
+    }
+}
+
+/**
+ * A reset of a qubit to the |0> state. Not a unitary transformation; 
+ * it only marks where a reset takes place in a circuit.
+ */
+export class Reset extends Gate
+{
+    // all resets are fundamentally the same, make them singletons.
+    private static singleton: Reset | null = null;
+
+    constructor ()
+    {
+        if (Reset.singleton)
+            return Reset.singleton;
+
+        super();
+        Reset.singleton = this;
+    }
+
+    public override label (): string { return '|0⟩'; }
+
+    public override adjoint (): Gate 
+    { 
+        throw new Error('Error in Reset.adjoint(): Resets are not reversible.'); 
+    }
+}
+
+/**
+ * A numeric entry of a user-defined matrix, either real or complex.
+ */
+export type MatrixEntry = number | { readonly re: number, readonly im: number };
+
+/**
+ * A `Gate` on one, two or three qubits, defined directly by its unitary matrix.
+ */
+export class UnitaryGate extends Gate
+{
+    /**
+     * The maximum deviation of U†U from the identity for a matrix to be accepted as unitary.
+     */
+    public static readonly TOLERANCE = 1e-8;
+
+    private readonly entries: number[];
+
+    /**
+     * @param matrix The matrix of the gate, either flattened in row-major order as `Complex` indices
+     * (the format of `Gate.matrix()`), or as a 2x2, 4x4 or 8x8 array of numeric values.
+     * Bit j of a row (column) index is the state of the jth target qubit.
+     * @param name (Optional) The display name of the gate, as used in circuit drawings.
+     */
+    constructor (matrix: readonly number[] | readonly (readonly MatrixEntry[])[], private readonly name: string = 'Unitary')
+    {
+        super();
+
+        if (name.length === 0)
+            throw new Error('Error in UnitaryGate(): The label of the gate cannot be empty.');
+
+        this.entries = UnitaryGate.resolve(matrix);
+
+        if (!UnitaryGate.isUnitary(this.entries))
+            throw new Error('Error in UnitaryGate(): The given matrix is not unitary.');
+    }
+
+    /**
+     * Registers the entries of the given matrix as `Complex` numbers.
+     * @returns The indices of the entries, in row-major order.
+     */
+    private static resolve (matrix: readonly number[] | readonly (readonly MatrixEntry[])[]): number[]
+    {
+        if (matrix.every((entry): entry is number => typeof entry === 'number'))
+        {
+            if (![4, 16, 64].includes(matrix.length))
+                throw new Error(`Error in UnitaryGate(): Expected 4, 16 or 64 complex indices (received ${matrix.length}).`);
+
+            const unknown = matrix.find(index => !Complex.has(index));
+
+            if (unknown !== undefined)
+                throw new Error(`Error in UnitaryGate(): Unknown complex index ${unknown}.`);
+
+            return [...matrix];
+        }
+
+        if (![2, 4, 8].includes(matrix.length) || matrix.some(row => !Array.isArray(row) || row.length !== matrix.length))
+            throw new Error('Error in UnitaryGate(): Expected a 2x2, 4x4 or 8x8 matrix.');
+
+        return (matrix as readonly (readonly MatrixEntry[])[]).flat().map(entry =>
+        {
+            const [re, im] = typeof entry === 'number' ? [entry, 0] : [entry.re, entry.im];
+
+            if (!Number.isFinite(re) || !Number.isFinite(im))
+                throw new Error('Error in UnitaryGate(): Non-finite matrix entry passed.');
+
+            return new Complex(re, 0, im, 0).index;
+        });
+    }
+
+    /**
+     * Checks whether U†U equals the identity within `UnitaryGate.TOLERANCE`.
+     * @param entries The indices of the matrix entries, in row-major order.
+     */
+    private static isUnitary (entries: number[]): boolean
+    {
+        const size = Math.round(Math.sqrt(entries.length));
+        const at = (row: number, col: number) => Complex.get(entries[row * size + col])!;
+
+        for (let i = 0; i < size; i++) for (let j = 0; j < size; j++)
+        {
+            let [re, im] = [0, 0];
+
+            // (U†U)_ij = sum over k of conj(U_ki) * U_kj
+            for (let k = 0; k < size; k++)
+            {
+                const [a, b] = [at(k, i), at(k, j)];
+
+                re += a.re() * b.re() + a.im() * b.im();
+                im += a.re() * b.im() - a.im() * b.re();
+            }
+
+            if (Math.abs(re - (i === j ? 1 : 0)) > UnitaryGate.TOLERANCE || Math.abs(im) > UnitaryGate.TOLERANCE)
+                return false;
+        }
+
+        return true;
+    }
+
+    public override matrix (): number[] { return [...this.entries]; }
+
+    public override label (): string { return this.name; }
+
+    public override width (): number { return Math.log2(this.entries.length) / 2; }
+
+    public override adjoint (): Gate
+    {
+        const size = Math.round(Math.sqrt(this.entries.length));
+        // the conjugate transpose, keeping exact entries exact
+        const entries = this.entries.map((_, i) =>
+            Complex.get(this.entries[(i % size) * size + Math.floor(i / size)])!.conj().index);
+
+        return new UnitaryGate(entries, this.name.endsWith('†') ? this.name.slice(0, -1) : `${this.name}†`);
+    }
 }
 
 // ... 
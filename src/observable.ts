@@ -0,0 +1,144 @@
+/*
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/.
+ */
+
+import { Complex } from "./complex";
+
+/**
+ * A single term of an `Observable`, i.e. a real coefficient scaling a Pauli string.
+ */
+export type PauliTerm = { readonly coefficient: number, readonly pauli: string };
+
+/**
+ * Converts the given coefficient to the exact rational number its decimal notation describes (e.g. 0.1 to 1/10).
+ * @param value The finite coefficient to convert.
+ * @returns The index of the `Complex` coefficient.
+ */
+function rational (value: number): number
+{
+    const [, sign, whole, fraction = '', exponent = '0'] = /^(-?)(\d+)(?:\.(\d+))?(?:e([+-]\d+))?$/.exec(String(value))!;
+    const shift = Number(exponent) - fraction.length;
+    const digits = BigInt(sign + whole + fraction);
+
+    return shift >= 0 ? new Complex(digits * 10n ** BigInt(shift), 0n, 0n, 0n).index : new Complex(digits, 0n, 0n, 0n, 10n ** BigInt(-shift)).index;
+}
+
+/**
+ * A Hermitian operator given as a weighted sum of Pauli strings, e.g. a Hamiltonian.
+ *
+ * The Pauli strings follow the same notation as the basis states (qubit 0 is the last character). Repeated
+ * strings are merged into a single term by adding their exact coefficients (see `coefficients()`), and terms
+ * that cancel out are dropped.
+ */
+export class Observable
+{
+    /**
+     * The terms of the sum, in order of first appearance.
+     */
+    public readonly terms: readonly PauliTerm[];
+    /**
+     * The exact coefficients of the terms, as indices of `Complex` numbers.
+     */
+    private readonly exact: readonly number[];
+    /**
+     * The number of qubits the Pauli strings span.
+     */
+    private readonly qubits: number;
+
+    /**
+     * @param terms The pairs of Pauli strings (a combination of 'I', 'X', 'Y' and 'Z') and their real coefficients.
+     */
+    constructor (terms: readonly (readonly [string, number])[])
+    {
+        if (terms.length === 0)
+            throw new Error(`Error in Observable(): At least one term is required.`);
+
+        const merged = new Map<string, number>();  // the Pauli strings mapped to the indices of their exact coefficients
+
+        for (const [pauli, coefficient] of terms)
+        {
+            if (!/^[IXYZ]+$/.test(pauli)) throw new Error(
+                `Error in Observable(): Unrecognized character found in Pauli string '${pauli}', 'I', 'X', 'Y' or 'Z' were expected.`);
+
+            if (pauli.length !== terms[0][0].length) throw new Error(
+                `Error in Observable(): All Pauli strings must span the same amount of qubits (${terms[0][0].length} and ${pauli.length} were given).`);
+
+            if (!Number.isFinite(coefficient))
+                throw new Error(`Error in Observable(): Non-finite coefficient passed.`);
+
+            merged.set(pauli, Complex.add(merged.get(pauli) ?? Complex.ZERO, rational(coefficient)));
+        }
+
+        const kept = [...merged].filter(([, index]) => index !== Complex.ZERO);
+
+        this.terms = kept.map(([pauli, index]) => ({ coefficient: Complex.get(index)!.re(), pauli }));
+        this.exact = kept.map(([, index]) => index);
+        this.qubits = terms[0][0].length;
+    }
+
+    /**
+     * Parses an observable from its textual form, as a sum of optionally scaled Pauli strings, e.g. `"0.5*XX - 1.2*ZI + IZ"`.
+     * @param source The text to parse.
+     * @returns The described `Observable`.
+     */
+    public static parse (source: string): Observable
+    {
+        const term = /\s*([+-])?\s*(?:(\d+(?:\.\d*)?|\.\d+)(?:[eE]([+-]?\d+))?\s*\*\s*)?([A-Za-z]+)\s*/y;
+        const terms: [string, number][] = [];
+
+        while (term.lastIndex < source.length)
+        {
+            const start = term.lastIndex;
+            const match = term.exec(source);
+
+            if (match === null || (match[1] === undefined && terms.length > 0)) throw new Error(
+                `Error in Observable.parse(): Unexpected input at position ${start} ('${source.slice(start).trim()}').`);
+
+            const [, sign, value = '1', exponent = '0', pauli] = match;
+            terms.push([pauli, Number(`${sign ?? ''}${value}e${exponent}`)]);
+        }
+
+        if (terms.length === 0)
+            throw new Error(`Error in Observable.parse(): No terms were found.`);
+
+        return new Observable(terms);
+    }
+
+    /**
+     * @returns The number of qubits `this` observable acts on.
+     */
+    public width (): number
+    {
+        return this.qubits;
+    }
+
+    /**
+     * @returns The exact coefficients of the terms, as indices of `Complex` numbers (in the same order as `terms`).
+     */
+    public coefficients (): number[]
+    {
+        return [...this.exact];
+    }
+
+    public toString (): string
+    {
+        if (this.terms.length === 0)
+            return `0*${'I'.repeat(this.qubits)}`;
+
+        return this.terms.map(({ coefficient, pauli }, i) =>
+        {
+            const sign = coefficient < 0 ? '-' : i > 0 ? '+' : '';
+            const magnitude = Math.abs(coefficient) === 1 ? '' : `${Math.abs(coefficient)}*`;
+
+            return `${i > 0 ? ` ${sign} ` : sign}${magnitude}${pauli}`;
+        }).join('');
+    }
+}
+
+/**
+ * An alias of `Observable`, after its name in other frameworks.
+ */
+export const SparsePauliOp = Observable;
+export type SparsePauliOp = Observable;
@@ -0,0 +1,79 @@
+/*
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/.
+ */
+
+/**
+ * A symbolic angle, to be bound to a value after the circuit has been built.
+ *
+ * Parameters are identified by their `name`, and may be scaled by a constant `coefficient` (e.g. by adjoints).
+ */
+export class Parameter
+{
+    /**
+     * @param name The name of the symbol (a valid identifier).
+     * @param coefficient (Optional) The constant factor the symbol is multiplied with.
+     */
+    constructor (public readonly name: string, public readonly coefficient: number = 1)
+    {
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name))
+            throw new Error(`Error in Parameter(): Invalid parameter name '${name}'.`);
+
+        if (!Number.isFinite(coefficient))
+            throw new Error(`Error in Parameter(): Non-finite coefficient passed.`);
+    }
+
+    /**
+     * Scales `this` parameter by a constant factor.
+     * @param factor The factor to multiply with.
+     * @returns The scaled `Parameter`.
+     */
+    public times (factor: number): Parameter
+    {
+        return new Parameter(this.name, this.coefficient * factor);
+    }
+
+    public toString (): string
+    {
+        return this.coefficient ===  1 ? this.name :
+               this.coefficient === -1 ? `-${this.name}` :
+                                         `${this.coefficient}*${this.name}`;
+    }
+}
+
+/**
+ * An angle of a parameterized gate, either known or symbolic.
+ */
+export type Angle = number | Parameter;
+
+/**
+ * Substitutes the given values into `angle`.
+ * @param angle The angle to bind.
+ * @param values The values of the symbols, by name.
+ * @returns The value of the angle, or `angle` as is if its symbol is not among `values`.
+ */
+export function bindAngle (angle: Angle, values: Readonly<Record<string, number>>): Angle
+{
+    if (typeof angle === 'number' || !Object.hasOwn(values, angle.name)) return angle;
+
+    return angle.coefficient * values[angle.name];
+}
+
+/**
+ * Negates the given angle.
+ */
+export function negate (angle: Angle): Angle
+{
+    return typeof angle === 'number' ? -angle : angle.times(-1);
+}
+
+/**
+ * Collects the (unscaled) symbols that appear among the given angles.
+ * @param angles The angles to inspect.
+ * @returns The list of symbols.
+ */
+export function symbols (...angles: Angle[]): Parameter[]
+{
+    return angles.filter((angle): angle is Parameter => angle instanceof Parameter).map(angle => new Parameter(angle.name));
+}
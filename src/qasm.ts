@@ -0,0 +1,1195 @@
+/*
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/.
+ */
+
+import type { Condition, Instruction } from "./circuit";
+import type { Angle } from "./parameter";
+import { ECR, Gate, H, iSWAP, Measure, P, Reset, RX, RY, RZ, S, SWAP, SX, T, U, UnitaryGate, X, Y, Z } from "./gates";
+import { Complex } from "./complex";
+
+/**
+ * A complex number as its real and imaginary parts, for the numeric decompositions of the exporter.
+ */
+type Entry = [number, number];
+
+/**
+ * A lexical unit of an OpenQASM program, along with its position in the source.
+ */
+type Token = { kind: 'id' | 'num' | 'str' | 'sym' | 'eof', text: string, line: number, column: number };
+
+/**
+ * A parsed angle expression, evaluated lazily against the parameters in scope.
+ */
+type Expression = (scope: Map<string, number>) => number;
+
+/**
+ * A (not yet expanded) gate invocation, either at top level or inside a `gate` body.
+ */
+type Call = { name: string, params: Expression[], args: { reg: string, index?: number }[], line: number, column: number };
+
+/**
+ * A user-defined gate, as declared through the `gate` statement.
+ */
+type Definition = { params: string[], args: string[], body: Call[] };
+
+/**
+ * A single built-in operation of the parsed program, acting on flattened qubit (and for measurements, classical bit) indices.
+ * Rotations also carry their (evaluated) angles, and operations of `if` statements the classical bits and the value they 
+ * are conditioned on.
+ */
+export type Operation = { name: string, qubits: number[], params?: number[], clbits?: number[], condition?: Condition };
+
+/**
+ * The flattened description of an OpenQASM program.
+ */
+export type Program = { qubits: number, clbits: number, operations: Operation[] };
+
+/**
+ * The `qelib1.inc` gates that map directly onto `QuantumCircuit` operations, along with their qubit arity.
+ */
+const BUILTINS: Record<string, number> = {
+    id: 1, x: 1, y: 1, z: 1, h: 1, s: 1, sdg: 1, t: 1, tdg: 1, sx: 1, sxdg: 1,
+    cx: 2, cy: 2, cz: 2, ch: 2, cs: 2, csdg: 2, csx: 2, swap: 2,
+    ccx: 3, ccz: 3, cswap: 3
+};
+
+/**
+ * The diagonal phase gates that can be expressed exactly, indexed by the number of eighth turns they perform.
+ */
+const PHASES: string[][] = [[], ['t'], ['s'], ['s', 't'], ['z'], ['z', 't'], ['sdg'], ['tdg']];
+
+/**
+ * Functions allowed inside angle expressions.
+ */
+const FUNCTIONS: Record<string, (x: number) => number> = {
+    sin: Math.sin, cos: Math.cos, tan: Math.tan, exp: Math.exp, ln: Math.log, sqrt: Math.sqrt
+};
+
+/**
+ * Splits the given OpenQASM `source` into tokens, discarding whitespace and comments.
+ * @param source The OpenQASM program text.
+ * @returns The list of tokens, terminated by an `eof` token.
+ */
+function tokenize (source: string): Token[]
+{
+    const tokens: Token[] = [];
+    const pattern = /(\s+)|(\/\/[^\n]*)|(\/\*[\s\S]*?\*\/)|([A-Za-z_][A-Za-z0-9_]*)|((?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)|("[^"\n]*")|(->|==|[;,[\](){}+\-*/^])|(.)/y;
+    let line = 1, column = 1, match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(source)) !== null)
+    {
+        const [text, , , , id, num, str, sym, unknown] = match;
+
+        if (unknown !== undefined) throw new Error(
+            `Error in parseQASM(): Unexpected character '${unknown}' at line ${line}, column ${column}.`);
+
+        if (id  !== undefined) tokens.push({ kind: 'id',  text: id,  line, column });
+        if (num !== undefined) tokens.push({ kind: 'num', text: num, line, column });
+        if (str !== undefined) tokens.push({ kind: 'str', text: str.slice(1, -1), line, column });
+        if (sym !== undefined) tokens.push({ kind: 'sym', text: sym, line, column });
+
+        // advance the position counters past the consumed text
+        for (const char of text)
+            if (char === '\n') { line++; column = 1; }
+            else column++;
+    }
+    tokens.push({ kind: 'eof', text: 'end of input', line, column });
+
+    return tokens;
+}
+
+/**
+ * Recursive descent parser over a token stream of an OpenQASM 2.0 program.
+ */
+class Parser
+{
+    private readonly tokens: Token[];
+    private pos = 0;
+
+    private readonly registers = new Map<string, { offset: number, size: number }>();
+    private readonly classical = new Map<string, { offset: number, size: number }>();
+    private readonly definitions = new Map<string, Definition>();
+    private readonly operations: Operation[] = [];
+    private qubits = 0;
+    private clbits = 0;
+    private condition?: Condition;  // the condition of the `if` statement being expanded, if any
+
+    constructor (source: string)
+    {
+        this.tokens = tokenize(source);
+    }
+
+    /**
+     * Throws a positioned parsing error.
+     * @param message The description of the error.
+     * @param at The position the error refers to. Defaults to that of the current token.
+     */
+    private fail (message: string, at: { line: number, column: number } = this.peek()): never
+    {
+        throw new Error(`Error in parseQASM(): ${message} at line ${at.line}, column ${at.column}.`);
+    }
+
+    private peek (): Token
+    {
+        return this.tokens[this.pos];
+    }
+
+    private next (): Token
+    {
+        const token = this.tokens[this.pos];
+
+        if (token.kind !== 'eof') this.pos++;
+
+        return token;
+    }
+
+    /**
+     * Consumes the current token if it matches `text`.
+     * @returns `true` if the token was consumed.
+     */
+    private accept (text: string): boolean
+    {
+        if (this.peek().kind === 'str' || this.peek().text !== text) return false;
+
+        this.pos++;
+        return true;
+    }
+
+    /**
+     * Consumes the current token, demanding that it matches `text`.
+     */
+    private expect (text: string): Token
+    {
+        if (this.peek().kind === 'str' || this.peek().text !== text)
+            this.fail(`Expected '${text}' but found '${this.peek().text}'`);
+
+        return this.next();
+    }
+
+    /**
+     * Consumes the current token, demanding that it is of the given `kind`.
+     */
+    private expectKind (kind: Token['kind'], description: string): Token
+    {
+        if (this.peek().kind !== kind)
+            this.fail(`Expected ${description} but found '${this.peek().text}'`);
+
+        return this.next();
+    }
+
+    /**
+     * Parses the entire token stream.
+     * @returns The flattened `Program`.
+     */
+    public parse (): Program
+    {
+        if (this.peek().text === 'OPENQASM')
+        {
+            this.next();
+            const version = this.expectKind('num', 'a version number');
+
+            if (version.text !== '2.0' && version.text !== '2')
+                this.fail(`Unsupported OpenQASM version ${version.text}`, version);
+
+            this.expect(';');
+        }
+
+        while (this.peek().kind !== 'eof')
+            this.statement();
+
+        if (this.qubits === 0) throw new Error(
+            `Error in parseQASM(): No quantum registers were declared.`);
+
+        return { qubits: this.qubits, clbits: this.clbits, operations: this.operations };
+    }
+
+    /**
+     * Parses a single top level statement.
+     */
+    private statement (): void
+    {
+        const token = this.peek();
+
+        if (token.kind !== 'id') this.fail(`Unexpected '${token.text}'`);
+
+        switch (token.text)
+        {
+            case 'include':
+            {
+                this.next();
+                const file = this.expectKind('str', 'a file name');
+
+                if (file.text !== 'qelib1.inc')
+                    this.fail(`Cannot include '${file.text}', only 'qelib1.inc' is supported`, file);
+
+                this.expect(';');
+                return;
+            }
+            case 'qreg':
+            case 'creg':
+            {
+                this.next();
+                const name = this.expectKind('id', 'a register name');
+
+                if (this.registers.has(name.text) || this.classical.has(name.text))
+                    this.fail(`Register '${name.text}' is already declared`, name);
+
+                this.expect('[');
+                const size = Number(this.expectKind('num', 'a register size').text);
+
+                if (!Number.isInteger(size) || size < 1)
+                    this.fail(`Invalid register size ${size}`, this.tokens[this.pos - 1]);
+
+                this.expect(']');
+                this.expect(';');
+
+                if (token.text === 'qreg')
+                {
+                    this.registers.set(name.text, { offset: this.qubits, size });
+                    this.qubits += size;
+                }
+                else
+                {
+                    this.classical.set(name.text, { offset: this.clbits, size });
+                    this.clbits += size;
+                }
+                return;
+            }
+            case 'gate':
+                this.definition();
+                return;
+            case 'barrier':
+                this.next();
+                this.arguments();
+                this.expect(';');
+                return;
+            case 'measure':
+                this.measurement();
+                return;
+            case 'reset':
+                this.reset();
+                return;
+            case 'if':
+                this.conditional();
+                return;
+            case 'opaque':
+                this.fail(`Unsupported construct '${token.text}'`);
+        }
+
+        this.expand(this.call(), new Map(), new Map(), true);
+    }
+
+    /**
+     * Parses a `measure` statement, broadcasting whole registers over their bits.
+     */
+    private measurement (): void
+    {
+        const token = this.expect('measure');
+        const [source] = this.arguments();
+        this.expect('->');
+        const [sink] = this.arguments();
+        this.expect(';');
+
+        const qubits = this.resolve(this.registers, source, 'quantum', token);
+        const clbits = this.resolve(this.classical, sink, 'classical', token);
+
+        if (qubits.length !== clbits.length)
+            this.fail(`Mismatched register sizes in 'measure'`, token);
+
+        for (const [i, qubit] of qubits.entries())
+            this.operations.push({ name: 'measure', qubits: [qubit], clbits: [clbits[i]], ...this.condition && { condition: this.condition } });
+    }
+
+    /**
+     * Parses an `if` statement, conditioning the operations of the enclosed gate call, measurement or reset on the value
+     * of a classical register.
+     */
+    private conditional (): void
+    {
+        this.expect('if');
+        this.expect('(');
+        const name = this.expectKind('id', 'a classical register name');
+        this.expect('==');
+        const value = this.expectKind('num', 'an integer value');
+        this.expect(')');
+
+        const reg = this.classical.get(name.text);
+
+        if (!reg) this.fail(`Unknown classical register '${name.text}'`, name);
+
+        const v = Number(value.text);
+
+        if (!Number.isInteger(v) || v >= 2 ** reg.size)
+            this.fail(`Value ${value.text} cannot be held by register '${name.text}' of size ${reg.size}`, value);
+
+        if (['if', 'barrier', 'gate', 'opaque', 'qreg', 'creg', 'include'].includes(this.peek().text))
+            this.fail(`Only gate calls, measurements and resets can be conditioned`);
+
+        this.condition = { clbits: [...Array(reg.size).keys()].map(i => reg.offset + i), value: v };
+
+        if (this.peek().text === 'measure') this.measurement();
+        else if (this.peek().text === 'reset') this.reset();
+        else this.expand(this.call(), new Map(), new Map(), true);
+
+        this.condition = undefined;
+    }
+
+    /**
+     * Parses a `reset` statement, broadcasting whole registers over their qubits.
+     */
+    private reset (): void
+    {
+        const token = this.expect('reset');
+        const [target] = this.arguments();
+        this.expect(';');
+
+        for (const qubit of this.resolve(this.registers, target, 'quantum', token))
+            this.operations.push({ name: 'reset', qubits: [qubit], ...this.condition && { condition: this.condition } });
+    }
+
+    /**
+     * Resolves a (possibly indexed) register argument to the flattened indices it refers to.
+     * @param registers The declared registers of the respective kind.
+     * @param arg The argument to resolve.
+     * @param kind The kind of the register, for error reporting.
+     * @param at Where the argument was used.
+     * @returns The list of flattened indices.
+     */
+    private resolve (registers: Map<string, { offset: number, size: number }>, arg: { reg: string, index?: number }, kind: string, at: { line: number, column: number }): number[]
+    {
+        const reg = registers.get(arg.reg);
+
+        if (!reg) this.fail(`Unknown ${kind} register '${arg.reg}'`, at);
+
+        if (arg.index === undefined) return [...Array(reg.size).keys()].map(i => reg.offset + i);
+
+        if (!Number.isInteger(arg.index) || arg.index >= reg.size)
+            this.fail(`Index ${arg.index} out of bounds for register '${arg.reg}' of size ${reg.size}`, at);
+
+        return [reg.offset + arg.index];
+    }
+
+    /**
+     * Parses a `gate` definition and stores it for later expansion.
+     */
+    private definition (): void
+    {
+        this.expect('gate');
+        const name = this.expectKind('id', 'a gate name');
+
+        if (this.definitions.has(name.text) || name.text in BUILTINS)
+            this.fail(`Gate '${name.text}' is already defined`, name);
+
+        const params: string[] = [];
+
+        if (this.accept('(') && !this.accept(')'))
+        {
+            do params.push(this.expectKind('id', 'a parameter name').text);
+            while (this.accept(','));
+
+            this.expect(')');
+        }
+
+        const args: string[] = [];
+
+        do args.push(this.expectKind('id', 'a qubit argument name').text);
+        while (this.accept(','));
+
+        const body: Call[] = [];
+        this.expect('{');
+
+        while (!this.accept('}'))
+        {
+            if (this.accept('barrier'))
+            {
+                this.arguments();
+                this.expect(';');
+                continue;
+            }
+            const call = this.call();
+
+            for (const arg of call.args) if (arg.index !== undefined || !args.includes(arg.reg))
+                this.fail(`Unknown qubit argument '${arg.reg}' in the definition of '${name.text}'`, call);
+
+            body.push(call);
+        }
+
+        this.definitions.set(name.text, { params, args, body });
+    }
+
+    /**
+     * Parses a gate invocation of the form `name(params) args;`.
+     */
+    private call (): Call
+    {
+        const name = this.expectKind('id', 'a gate name');
+        const params: Expression[] = [];
+
+        if (this.accept('(') && !this.accept(')'))
+        {
+            do params.push(this.expression());
+            while (this.accept(','));
+
+            this.expect(')');
+        }
+
+        const args = this.arguments();
+        this.expect(';');
+
+        return { name: name.text, params, args, line: name.line, column: name.column };
+    }
+
+    /**
+     * Parses a comma separated list of (possibly indexed) qubit arguments.
+     */
+    private arguments (): { reg: string, index?: number }[]
+    {
+        const args: { reg: string, index?: number }[] = [];
+
+        do
+        {
+            const reg = this.expectKind('id', 'a qubit argument').text;
+
+            if (this.accept('['))
+            {
+                args.push({ reg, index: Number(this.expectKind('num', 'a qubit index').text) });
+                this.expect(']');
+            }
+            else
+                args.push({ reg });
+        }
+        while (this.accept(','));
+
+        return args;
+    }
+
+    /**
+     * Expands `call` down to built-in operations and emits them.
+     * @param call The gate invocation.
+     * @param scope The values of the angle parameters in scope.
+     * @param bindings The mapping of the qubit argument names in scope to qubit indices (unused at top level).
+     * @param topLevel Whether `call` appears outside of a `gate` body (thus arguments refer to registers).
+     */
+    private expand (call: Call, scope: Map<string, number>, bindings: Map<string, number>, topLevel: boolean): void
+    {
+        const params = call.params.map(param => param(scope));
+        const definition = this.definitions.get(call.name);
+        const arity = definition?.args.length ?? BUILTINS[call.name] ?? this.primitive(call.name, params, call).arity;
+
+        if (call.args.length !== arity)
+            this.fail(`Gate '${call.name}' expects ${arity} qubit arguments but ${call.args.length} were given`, call);
+
+        if (definition && definition.params.length !== params.length)
+            this.fail(`Gate '${call.name}' expects ${definition.params.length} parameters but ${params.length} were given`, call);
+
+        if (!definition && call.name in BUILTINS && params.length > 0)
+            this.fail(`Gate '${call.name}' takes no parameters`, call);
+
+        for (const qubits of (topLevel ? this.broadcast(call) : [call.args.map(arg => bindings.get(arg.reg)!)]))
+        {
+            if (new Set(qubits).size < qubits.length)
+                this.fail(`Duplicate qubit arguments passed to '${call.name}'`, call);
+
+            if (definition)
+            {
+                const inner = new Map(definition.params.map((param, i) => [param, params[i]]));
+                const args = new Map<string, number>(definition.args.map((arg, i) => [arg, qubits[i]]));
+
+                for (const statement of definition.body)
+                    this.expand(statement, inner, args, false);
+            }
+            else if (call.name in BUILTINS)
+                this.emit(call.name, qubits);
+            else
+                for (const op of this.primitive(call.name, params, call).ops)
+                    this.emit(op.name, qubits, op.params);
+        }
+    }
+
+    /**
+     * Emits a built-in gate operation, under the condition of the enclosing `if` statement (if any).
+     */
+    private emit (name: string, qubits: number[], params?: number[]): void
+    {
+        this.operations.push({ name, qubits, ...params && { params }, ...this.condition && { condition: this.condition } });
+    }
+
+    /**
+     * Resolves the parameterized `qelib1.inc` gates. Phase gates on multiples of pi/4 are reduced to exact Clifford+T
+     * operations, while the rest are kept as rotations.
+     * @param name The name of the gate.
+     * @param params The evaluated angle parameters.
+     * @param at Where the gate was invoked.
+     * @returns The equivalent sequence of built-in operations and the arity of the gate.
+     */
+    private primitive (name: string, params: number[], at: { line: number, column: number }): { ops: { name: string, params?: number[] }[], arity: number }
+    {
+        const expected: Record<string, number> = { 
+            CX: 0, U: 3, u: 3, u3: 3, u2: 2, u1: 1, u0: 1, p: 1, rx: 1, ry: 1, rz: 1, 
+            cu1: 1, cp: 1, crx: 1, cry: 1, crz: 1, cu3: 3 
+        };
+
+        if (name === 'CX') return { ops: [{ name: 'cx' }], arity: 2 };
+
+        if (!(name in expected))
+        {
+            if (/^(r(xx|yy|zz|zx)|cu)$/.test(name))
+                this.fail(`Unsupported gate '${name}'`, at);
+
+            this.fail(`Unknown gate '${name}'`, at);
+        }
+
+        if (params.length !== expected[name])
+            this.fail(`Gate '${name}' expects ${expected[name]} parameters but ${params.length} were given`, at);
+
+        // u0 idles for the given number of gate durations
+        if (name === 'u0') return { ops: [], arity: 1 };
+
+        const controlled = name.startsWith('c');
+        const arity = controlled ? 2 : 1;
+
+        // U(θ,φ,λ) is a diagonal phase of φ+λ only when θ = 0
+        const [theta, phi, lambda] =
+            /^(U|u3?|cu3)$/.test(name) ? params :
+            name === 'u2'              ? [Math.PI / 2, ...params] :
+                                         [0, 0, params[0]];
+        const eighths = (phi + lambda) / (Math.PI / 4);
+
+        if (/^(c?(u1|p|u3|U|u2)|u)$/.test(name) && Math.abs(theta) < 1e-9 && Math.abs(eighths - Math.round(eighths)) < 1e-9)
+        {
+            const phases = PHASES[((Math.round(eighths) % 8) + 8) % 8];
+
+            return { ops: phases.map(phase => ({ name: !controlled ? phase : phase === 'z' ? 'cz' : 'c' + phase })), arity };
+        }
+
+        const rotation = 
+            /^c?r[xyz]$/.test(name) ? { name: name.slice(-2), params: params } :
+            /^c?(u1|p)$/.test(name) ? { name: 'p', params: params } :
+                                      { name: 'u', params: [theta, phi, lambda] };
+
+        return { ops: [controlled ? { name: 'c' + rotation.name, params: rotation.params } : rotation], arity };
+    }
+
+    /**
+     * Resolves the register arguments of a top level `call` to qubit index tuples, broadcasting
+     * whole registers over their qubits.
+     */
+    private broadcast (call: Call): number[][]
+    {
+        let size = 1;
+        const resolved = call.args.map(arg =>
+        {
+            const indices = this.resolve(this.registers, arg, 'quantum', call);
+
+            if (arg.index === undefined)
+            {
+                if (size > 1 && indices.length !== size)
+                    this.fail(`Mismatched register sizes in '${call.name}'`, call);
+
+                size = indices.length;
+                return (i: number) => indices[i];
+            }
+
+            return () => indices[0];
+        });
+
+        return [...Array(size).keys()].map(i => resolved.map(f => f(i)));
+    }
+
+    /**
+     * Parses an additive angle expression.
+     */
+    private expression (): Expression
+    {
+        let left = this.term();
+
+        while (this.peek().text === '+' || this.peek().text === '-')
+        {
+            const op = this.next().text, l = left, r = this.term();
+            left = op === '+' ? s => l(s) + r(s) : s => l(s) - r(s);
+        }
+
+        return left;
+    }
+
+    /**
+     * Parses a multiplicative angle expression.
+     */
+    private term (): Expression
+    {
+        let left = this.factor();
+
+        while (this.peek().text === '*' || this.peek().text === '/')
+        {
+            const op = this.next().text, l = left, r = this.factor();
+            left = op === '*' ? s => l(s) * r(s) : s => l(s) / r(s);
+        }
+
+        return left;
+    }
+
+    /**
+     * Parses an exponentiation, a negation, or an atom.
+     */
+    private factor (): Expression
+    {
+        if (this.accept('-'))
+        {
+            const inner = this.factor();
+            return s => -inner(s);
+        }
+
+        const base = this.atom();
+
+        if (this.accept('^'))
+        {
+            const exponent = this.factor();
+            return s => base(s) ** exponent(s);
+        }
+
+        return base;
+    }
+
+    /**
+     * Parses a number, `pi`, a parameter reference, a function call or a parenthesized expression.
+     */
+    private atom (): Expression
+    {
+        const token = this.next();
+
+        if (token.kind === 'num')
+        {
+            const value = Number(token.text);
+            return () => value;
+        }
+
+        if (token.kind === 'sym' && token.text === '(')
+        {
+            const inner = this.expression();
+            this.expect(')');
+            return inner;
+        }
+
+        if (token.kind === 'id' && token.text === 'pi') return () => Math.PI;
+
+        if (token.kind === 'id' && token.text in FUNCTIONS)
+        {
+            const f = FUNCTIONS[token.text];
+            this.expect('(');
+            const inner = this.expression();
+            this.expect(')');
+            return s => f(inner(s));
+        }
+
+        if (token.kind === 'id') return s =>
+        {
+            if (!s.has(token.text)) this.fail(`Unknown parameter '${token.text}'`, token);
+
+            return s.get(token.text)!;
+        };
+
+        this.fail(`Unexpected '${token.text}' in expression`, token);
+    }
+}
+
+/**
+ * Parses an OpenQASM 2.0 program down to the built-in operations supported by `QuantumCircuit`.
+ *
+ * Custom `gate` definitions are inlined, whole-register arguments are broadcast and registers are
+ * flattened in order of declaration (so that `q[0]` of the first register is qubit 0).
+ * @param source The OpenQASM 2.0 program text.
+ * @returns The flattened `Program`.
+ */
+export function parseQASM (source: string): Program
+{
+    return new Parser(source).parse();
+}
+
+/**
+ * Resolves the OpenQASM name of the given `gate`, along with its angle parameters.
+ * @param gate The `Gate` to name.
+ * @param version The OpenQASM version to target (the phase and U gates are named differently in `qelib1.inc`).
+ * @returns The name of the gate in the standard libraries and its parameters, or `undefined` if it has none.
+ */
+function gateName (gate: Gate, version: 2 | 3): [string, Angle[]] | undefined
+{
+    return gate instanceof X    ? ['x', []]    :
+           gate instanceof Y    ? ['y', []]    :
+           gate instanceof Z    ? ['z', []]    :
+           gate instanceof H    ? ['h', []]    :
+           gate instanceof SWAP ? ['swap', []] :
+           gate instanceof S    ? [gate === new S(true) ? 'sdg' : 's', []] :
+           gate instanceof T    ? [gate === new T(true) ? 'tdg' : 't', []] :
+           // stdgates.inc has no sxdg, it is written as the inverse of sx instead
+           gate instanceof SX   ? [gate === new SX(true) ? (version === 2 ? 'sxdg' : 'inv @ sx') : 'sx', []] :
+           // iSWAP and ECR are defined by the OpenQASM 3.0 programs that use them
+           gate instanceof iSWAP ? [gate === new iSWAP(true) ? 'inv @ iswap' : 'iswap', []] :
+           gate instanceof ECR  ? ['ecr', []] :
+           gate instanceof RX   ? ['rx', [gate.theta]] :
+           gate instanceof RY   ? ['ry', [gate.theta]] :
+           gate instanceof RZ   ? ['rz', [gate.theta]] :
+           gate instanceof P    ? [version === 2 ? 'u1' : 'p', [gate.lambda]] :
+           gate instanceof U    ? [version === 2 ? 'u3' : 'U', [gate.theta, gate.phi, gate.lambda]] :
+                                  undefined;
+}
+
+/**
+ * Formats the given angle, as a dyadic fraction of pi where possible (e.g. `-pi/8`).
+ */
+function formatAngle (angle: number): string
+{
+    for (let k = 0; k <= 10; k++)
+    {
+        const m = angle / Math.PI * 2 ** k;
+
+        if (Math.abs(m - Math.round(m)) < 1e-12 && Math.round(m) !== 0 && (k === 0 || Math.round(m) % 2 !== 0))
+            return (Math.round(m) === 1 ? '' : Math.round(m) === -1 ? '-' : `${Math.round(m)}*`) + 'pi' + (k > 0 ? `/${2 ** k}` : '');
+    }
+
+    return `${angle}`;
+}
+
+/**
+ * Expresses a phase of `lambda` controlled on any number of qubits through `cu1` and Toffoli ladders, without ancillas:
+ * the phase is split in halves between the last control and the rest (Barenco et al., Lemma 7.5).
+ * @param lambda The phase angle.
+ * @param controls The control qubits (at least one).
+ * @param target The target qubit.
+ * @returns The statements.
+ */
+function emitPhase (lambda: number, controls: string[], target: string): string[]
+{
+    if (controls.length === 1) return [`cu1(${formatAngle(lambda)}) ${controls[0]}, ${target};`];
+
+    const [rest, last] = [controls.slice(0, -1), controls.at(-1)!];
+
+    return [
+        `cu1(${formatAngle(lambda / 2)}) ${last}, ${target};`,
+        ...emitToffoli(rest, last),
+        `cu1(${formatAngle(-lambda / 2)}) ${last}, ${target};`,
+        ...emitToffoli(rest, last),
+        ...emitPhase(lambda / 2, rest, target)
+    ];
+}
+
+/**
+ * Expresses an X gate controlled on any number of qubits, as the controlled Z (i.e. phase of pi) conjugated by Hadamards.
+ * @param controls The control qubits (at least one).
+ * @param target The target qubit.
+ * @returns The statements.
+ */
+function emitToffoli (controls: string[], target: string): string[]
+{
+    if (controls.length === 1) return [`cx ${controls[0]}, ${target};`];
+    if (controls.length === 2) return [`ccx ${controls.join(', ')}, ${target};`];
+
+    return [`h ${target};`, ...emitPhase(Math.PI, controls, target), `h ${target};`];
+}
+
+/**
+ * Translates a single instruction to OpenQASM 2.0 statements, using only `qelib1.inc` gates.
+ * @returns The statements, or `undefined` if the instruction is not expressible.
+ */
+function emitQASM2 (name: string, params: Angle[], targets: string[], controls: string[]): string[] | undefined
+{
+    const args = [...controls, ...targets].join(', ');
+    const angles = params.length > 0 ? `(${params.join(', ')})` : '';
+    // the diagonal phases, which take any number of controls
+    const phases: Record<string, number> = { z: Math.PI, s: Math.PI / 2, sdg: -Math.PI / 2, t: Math.PI / 4, tdg: -Math.PI / 4 };
+
+    if (controls.length === 0) return [`${name}${angles} ${args};`];
+
+    if (controls.length === 1)
+    {
+        // the controlled phases are not part of qelib1.inc, express them through cu1
+        if (name in phases && name !== 'z') return emitPhase(phases[name], controls, targets[0]);
+        if (name === 'swap') return [`cswap ${args};`];
+        // SX† = H S† H
+        if (name === 'sxdg') return [`h ${targets[0]};`, ...emitPhase(-Math.PI / 2, controls, targets[0]), `h ${targets[0]};`];
+
+        return [`c${name}${angles} ${args};`];
+    }
+
+    if (name === 'x') return emitToffoli(controls, targets[0]);
+    // CCZ is CCX conjugated by Hadamards on the target
+    if (controls.length === 2 && name === 'z') return [`h ${targets[0]};`, `ccx ${args};`, `h ${targets[0]};`];
+    if (name in phases) return emitPhase(phases[name], controls, targets[0]);
+    if (name === 'u1') return emitPhase(params[0] as number, controls, targets[0]);
+
+    return undefined;
+}
+
+/**
+ * Expresses the two-qubit gates missing from `qelib1.inc` as exact Clifford sequences of its gates.
+ * @param gate The gate to decompose.
+ * @param targets The target qubits.
+ * @returns The statements, or `undefined` if `gate` is not among them.
+ */
+function emitClifford (gate: Gate, [a, b]: string[]): string[] | undefined
+{
+    if (gate === new iSWAP())     return [`s ${a};`, `s ${b};`, `h ${a};`, `cx ${a}, ${b};`, `cx ${b}, ${a};`, `h ${b};`];
+    if (gate === new iSWAP(true)) return [`h ${b};`, `cx ${b}, ${a};`, `cx ${a}, ${b};`, `h ${a};`, `sdg ${b};`, `sdg ${a};`];
+    // ECR = X_0 exp(-jπ/4 Z_0 X_1), with the ZX interaction as an RX conjugated by CZs
+    if (gate === new ECR())       return [`cz ${a}, ${b};`, `rx(pi/2) ${b};`, `cz ${a}, ${b};`, `x ${a};`];
+
+    return undefined;
+}
+
+/**
+ * Decomposes the given single-qubit unitary as e^(jα) U3(θ, φ, λ).
+ * @param matrix The matrix entries as `[re, im]` pairs, in row-major order.
+ * @returns The angles `[θ, φ, λ, α]`.
+ */
+function eulerAngles (matrix: readonly Entry[]): [number, number, number, number]
+{
+    const [a, b, c, d] = matrix;
+    const arg = ([re, im]: Entry) => Math.atan2(im, re);
+    const theta = 2 * Math.atan2(Math.hypot(...c), Math.hypot(...a));
+    // all angles but θ are periodic, so they are kept within (-π, π]
+    const wrap = (angles: number[]) => angles.map((x, i) => i === 0 ? x : x - 2 * Math.PI * Math.ceil(x / (2 * Math.PI) - 0.5)) as [number, number, number, number];
+
+    // U3 = [[cos(θ/2), -e^(jλ) sin(θ/2)], [e^(jφ) sin(θ/2), e^(j(φ+λ)) cos(θ/2)]], where λ is free if sin(θ/2) = 0 and φ if cos(θ/2) = 0
+    if (Math.abs(Math.sin(theta / 2)) < 1e-12) return wrap([0, 0, arg(d) - arg(a), arg(a)]);
+    if (Math.abs(Math.cos(theta / 2)) < 1e-12) return wrap([Math.PI, arg(c) - arg(b) - Math.PI, 0, arg(b) + Math.PI]);
+
+    return wrap([theta, arg(c) - arg(a), arg(b) - arg(a) + Math.PI, arg(a)]);
+}
+
+/**
+ * Reads the matrix of the given `UnitaryGate` numerically.
+ * @returns The matrix entries as `[re, im]` pairs, in row-major order.
+ */
+function entries (gate: UnitaryGate): Entry[]
+{
+    return gate.matrix().map(i => [Complex.get(i)!.re(), Complex.get(i)!.im()]);
+}
+
+/**
+ * Decomposes the given multi-qubit unitary into two-level unitaries, i.e. single-qubit unitaries on one of its targets 
+ * controlled on the state of all others. The basis states are eliminated column by column in Gray code order, so that 
+ * every pair of rows rotated against each other differs in a single target (Nielsen & Chuang, Section 4.5.1).
+ * @param matrix The matrix entries as `[re, im]` pairs, in row-major order.
+ * @returns The two-level unitaries in order of application, as the target, the controls and their states (all indices 
+ * among the targets of the gate) and the 2x2 matrix acting on the target.
+ */
+function twoLevel (matrix: readonly Entry[]): { target: number, controls: number[], ctrlState: string, matrix: Entry[] }[]
+{
+    const size = Math.round(Math.sqrt(matrix.length));
+    const width = Math.log2(size);
+    const gray = [...Array(size).keys()].map(i => i ^ (i >> 1));
+    // the rows of the matrix in Gray code order, each reduced to its columns in the same order
+    const rows = gray.map(r => gray.map(c => [...matrix[r * size + c]] as Entry));
+    const mul = ([a, b]: Entry, [c, d]: Entry): Entry => [a * c - b * d, a * d + b * c];
+    const conj = ([a, b]: Entry): Entry => [a, -b];
+    const steps: { rows: [number, number], matrix: Entry[] }[] = [];
+
+    /**
+     * Left-multiplies rows `i - 1` and `i` by the given 2x2 matrix, logging its adjoint (the step that undoes it).
+     */
+    const rotate = (i: number, [g00, g01, g10, g11]: Entry[]) =>
+    {
+        for (const col of rows[i].keys())
+        {
+            const [x, y] = [rows[i - 1][col], rows[i][col]];
+            const [u, v] = [mul(g00, x), mul(g01, y)];
+            const [w, z] = [mul(g10, x), mul(g11, y)];
+
+            [rows[i - 1][col], rows[i][col]] = [[u[0] + v[0], u[1] + v[1]], [w[0] + z[0], w[1] + z[1]]];
+        }
+
+        steps.push({ rows: [gray[i - 1], gray[i]], matrix: [conj(g00), conj(g10), conj(g01), conj(g11)] });
+    };
+
+    for (let col = 0; col < size - 1; col++) for (let i = size - 1; i > col; i--)
+    {
+        const [a, b] = [rows[i - 1][col], rows[i][col]];
+        const norm = Math.hypot(...a, ...b);
+
+        // the last rotation of each column also leaves a real, positive entry on its diagonal
+        if (Math.hypot(...b) < 1e-12 && (i > col + 1 || Math.hypot(a[0] - 1, a[1]) < 1e-12)) continue;
+
+        // [[a*, b*], [-b, a]] / |(a, b)| sends (a, b) to (|(a, b)|, 0)
+        rotate(i, [conj(a), conj(b), [-b[0], -b[1]], a].map(([re, im]) => [re / norm, im / norm]));
+    }
+
+    // what is left is a phase on the last basis state
+    const last = rows[size - 1][size - 1];
+
+    if (Math.hypot(last[0] - 1, last[1]) > 1e-12)
+        steps.push({ rows: [gray[size - 2], gray[size - 1]], matrix: [[1, 0], [0, 0], [0, 0], last] });
+
+    // the logged steps undo the matrix, so it is rebuilt by their adjoints in reverse
+    return steps.reverse().map(({ rows: [s, t], matrix: [v00, v01, v10, v11] }) =>
+    {
+        const target = Math.log2(s ^ t);
+        const controls = [...Array(width).keys()].filter(j => j !== target);
+
+        return {
+            target: target,
+            controls: controls,
+            ctrlState: controls.map(j => (s >> j) & 1).join(''),
+            // the pair is ordered by the state of the target in `s`
+            matrix: (s >> target) & 1 ? [v11, v10, v01, v00] : [v00, v01, v10, v11]
+        };
+    });
+}
+
+/**
+ * Translates a `UnitaryGate` to OpenQASM 3.0 statements, through `U` gates and the global phase `gphase`: directly for 
+ * single-qubit unitaries, and as two-level unitaries otherwise (see `twoLevel()`).
+ * @returns The statements.
+ */
+function emitUnitary (gate: UnitaryGate, targets: string[], controls: string[], ctrlState: string): string[]
+{
+    const steps = gate.width() === 1 
+        ? [{ target: 0, controls: [], ctrlState: '', matrix: entries(gate) }] 
+        : twoLevel(entries(gate));
+
+    return steps.flatMap(step =>
+    {
+        const [theta, phi, lambda, alpha] = eulerAngles(step.matrix);
+        const [c, state] = [[...controls, ...step.controls.map(j => targets[j])], ctrlState + step.ctrlState];
+        const statements = [emitQASM3(`U(${[theta, phi, lambda].map(formatAngle).join(', ')})`, [], [targets[step.target]], c, state)];
+
+        // the global phase of each step is relative to its controls
+        if (Math.abs(Math.sin(alpha / 2)) > 1e-12)
+            statements.push(c.length > 0 ? emitQASM3(`gphase(${formatAngle(alpha)})`, [], [], c, state) : `gphase(${formatAngle(alpha)});`);
+
+        return statements;
+    });
+}
+
+/**
+ * Translates a single instruction to an OpenQASM 3.0 statement, using `stdgates.inc` gates and control modifiers.
+ * @returns The statement.
+ */
+function emitQASM3 (name: string, params: Angle[], targets: string[], controls: string[], ctrlState: string): string
+{
+    const args = [...controls, ...targets].join(', ');
+    const call = name + (params.length > 0 ? `(${params.join(', ')})` : '');
+
+    if (!ctrlState.includes('0'))
+    {
+        const standard: Record<string, string[]> = { x: ['cx', 'ccx'], y: ['cy'], z: ['cz'], h: ['ch'], swap: ['cswap'] };
+
+        if (controls.length === 0) return `${call} ${args};`;
+        if (standard[name]?.[controls.length - 1]) return `${standard[name][controls.length - 1]} ${args};`;
+    }
+
+    // group consecutive controls of the same state under a single modifier
+    const modifiers = ctrlState.match(/0+|1+/g)!.map(run =>
+        (run[0] === '1' ? 'ctrl' : 'negctrl') + (run.length > 1 ? `(${run.length})` : '') + ' @ ');
+
+    return `${modifiers.join('')}${call} ${args};`;
+}
+
+/**
+ * Translates a single (unconditioned) instruction to OpenQASM statements.
+ * @param instruction The operation to translate.
+ * @param version The OpenQASM version to target.
+ * @param bit Resolves a classical bit index to its reference in the program.
+ * @returns The statements.
+ */
+function emitInstruction ({ gate, targets, controls, ctrlState, clbits }: Instruction, version: 2 | 3, bit: (clbit: number) => string): string[]
+{
+    if (gate instanceof Measure)
+        return [version === 2 ? `measure q[${targets[0]}] -> ${bit(clbits![0])};` : `${bit(clbits![0])} = measure q[${targets[0]}];`];
+
+    if (gate instanceof Reset)
+        return [`reset q[${targets[0]}];`];
+
+    if (version === 2 && (gate instanceof iSWAP || gate instanceof ECR || gate instanceof UnitaryGate))
+        return emitDecomposed(gate, targets.map(i => `q[${i}]`), controls.map(i => `q[${i}]`), ctrlState);
+
+    if (gate instanceof UnitaryGate)
+        return emitUnitary(gate, targets.map(i => `q[${i}]`), controls.map(i => `q[${i}]`), ctrlState);
+
+    const resolved = gateName(gate, version);
+
+    if (resolved === undefined) throw new Error(
+        `Error in QuantumCircuit.toQASM(): ${gate.constructor.name} has no OpenQASM ${version}.0 equivalent.`);
+
+    const t = targets.map(i => `q[${i}]`);
+    const c = controls.map(i => `q[${i}]`);
+
+    const [name, params] = resolved;
+
+    if (version === 3)
+        return [emitQASM3(name, params, t, c, ctrlState)];
+
+    const statements = emitQASM2(name, params, t, c);
+
+    if (statements === undefined) throw new Error(
+        `Error in QuantumCircuit.toQASM(): A ${name} gate with ${controls.length} controls has no OpenQASM 2.0 equivalent.`);
+
+    return withFlips(statements, c, ctrlState);
+}
+
+/**
+ * Conjugates the given statements with X gates on the negative controls, flipping them to positive ones for the duration
+ * of the operation.
+ */
+function withFlips (statements: string[], controls: string[], ctrlState: string): string[]
+{
+    const flips = controls.filter((_, i) => ctrlState[i] === '0').map(q => `x ${q};`);
+
+    return [...flips, ...statements, ...flips];
+}
+
+/**
+ * Translates the gates without a `qelib1.inc` counterpart to OpenQASM 2.0, as exact sequences of its gates: iSWAP and ECR
+ * (uncontrolled) through Clifford gates, and single-qubit unitaries through `u3` (or `cu3`, if singly controlled) along 
+ * with their global phase.
+ * @returns The statements.
+ */
+function emitDecomposed (gate: iSWAP | ECR | UnitaryGate, targets: string[], controls: string[], ctrlState: string): string[]
+{
+    const unsupported = () => new Error(
+        `Error in QuantumCircuit.toQASM(): A ${gate.label()} gate with ${controls.length} controls has no OpenQASM 2.0 equivalent.`);
+
+    if (!(gate instanceof UnitaryGate))
+    {
+        if (controls.length > 0) throw unsupported();
+
+        return emitClifford(gate, targets)!;
+    }
+
+    if (gate.width() > 1) throw new Error(
+        `Error in QuantumCircuit.toQASM(): A ${gate.width()}-qubit UnitaryGate has no OpenQASM 2.0 equivalent.`);
+
+    if (controls.length > 1) throw unsupported();
+
+    const [theta, phi, lambda, alpha] = eulerAngles(entries(gate));
+    const statements = [`${controls.length > 0 ? 'cu3' : 'u3'}(${[theta, phi, lambda].map(formatAngle).join(', ')}) ${[...controls, ...targets].join(', ')};`];
+
+    // the global phase becomes relative under a control, and is otherwise kept as X u1(α) X u1(α) = e^(jα) I
+    if (Math.abs(Math.sin(alpha / 2)) > 1e-12)
+    {
+        const [q, angle] = [controls[0] ?? targets[0], formatAngle(alpha)];
+
+        statements.push(...(controls.length > 0 ? [`u1(${angle}) ${q};`] : [`u1(${angle}) ${q};`, `x ${q};`, `u1(${angle}) ${q};`, `x ${q};`]));
+    }
+
+    return withFlips(statements, controls, ctrlState);
+}
+
+/**
+ * Splits the classical bits into the registers of an OpenQASM 2.0 program, which can only compare entire registers 
+ * in its `if` statements: the register is cut wherever a condition starts or ends, so that the bits of every condition 
+ * form a register of their own (e.g. the `creg`s of an imported program).
+ * @param clbits The number of classical bits of the circuit.
+ * @param instructions The operations to serialize.
+ * @returns The consecutive registers, named `c` if there is only one and `c0`, `c1`, ... otherwise.
+ */
+function registers (clbits: number, instructions: readonly Instruction[]): { name: string, offset: number, size: number }[]
+{
+    const conditions = instructions.flatMap(({ condition }) => condition ? [condition] : []);
+    const cuts = new Set([0, clbits]);
+
+    for (const { clbits } of conditions)
+    {
+        const [low, high] = [Math.min(...clbits), Math.max(...clbits) + 1];
+
+        if (high - low !== clbits.length) throw new Error(
+            `Error in QuantumCircuit.toQASM(): Conditions on non-adjacent classical bits have no OpenQASM 2.0 equivalent.`);
+
+        cuts.add(low).add(high);
+    }
+
+    const sorted = [...cuts].sort((a, b) => a - b);
+
+    for (const { clbits } of conditions) if (sorted.some(cut => cut > Math.min(...clbits) && cut <= Math.max(...clbits))) throw new Error(
+        `Error in QuantumCircuit.toQASM(): Conditions on overlapping parts of the classical register have no OpenQASM 2.0 equivalent.`);
+
+    return sorted.slice(0, -1).map((offset, i) => ({ 
+        name: sorted.length > 2 ? `c${i}` : 'c', 
+        offset: offset, 
+        size: sorted[i + 1] - offset 
+    }));
+}
+
+/**
+ * Creates the wrapper that conditions statements on the given classical bits, as an `if` statement.
+ * 
+ * OpenQASM 2.0 can only compare an entire register (as split by `registers()`), while OpenQASM 3.0 also tests individual bits.
+ * @param condition The classical condition of the instruction.
+ * @param clbits The number of classical bits of the circuit.
+ * @param version The OpenQASM version to target.
+ * @param layout The classical registers of the OpenQASM 2.0 program.
+ * @returns The wrapping function.
+ */
+function emitCondition (condition: Condition, clbits: number, version: 2 | 3, layout: readonly { name: string, offset: number }[]): (statement: string) => string
+{
+    if (version === 2)
+    {
+        const { name, offset } = layout.find(({ offset }) => offset === Math.min(...condition.clbits))!;
+        // the bits of the condition may be listed in any order, while the register reads them by their position
+        const value = condition.clbits.reduce((sum, c, i) => sum + Math.floor(condition.value / 2 ** i) % 2 * 2 ** (c - offset), 0);
+
+        return statement => `if(${name}==${value}) ${statement}`;
+    }
+
+    const whole = condition.clbits.length === clbits && condition.clbits.every((c, i) => c === i);
+    const test = whole 
+        ? `c == ${condition.value}` 
+        : condition.clbits.map((c, i) => (Math.floor(condition.value / 2 ** i) % 2 ? '' : '!') + `c[${c}]`).join(' && ');
+
+    return statement => `if (${test}) { ${statement} }`;
+}
+
+/**
+ * Serializes the given instruction log as an OpenQASM program over a single quantum register `q`
+ * (and a single classical register `c`, if any classical bits are declared, which OpenQASM 2.0 splits as its 
+ * conditions require).
+ * @param qubits The width of the circuit.
+ * @param clbits The number of classical bits of the circuit.
+ * @param instructions The operations to serialize, in order.
+ * @param version The OpenQASM version to target.
+ * @returns The OpenQASM program text.
+ */
+export function emitQASM (qubits: number, clbits: number, instructions: readonly Instruction[], version: 2 | 3): string
+{
+    const lines = version === 2 
+        ? ['OPENQASM 2.0;', 'include "qelib1.inc";', `qreg q[${qubits}];`]
+        : ['OPENQASM 3.0;', 'include "stdgates.inc";', `qubit[${qubits}] q;`];
+
+    const layout = version === 2 && clbits > 0 ? registers(clbits, instructions) : [];
+
+    // the gates missing from stdgates.inc are defined through their Clifford decompositions, where used
+    const definitions = ([['iswap', new iSWAP()], ['ecr', new ECR()]] as const)
+        .filter(([, gate]) => version === 3 && instructions.some(instruction => instruction.gate.constructor === gate.constructor))
+        .map(([name, gate]) => `gate ${name} a, b { ${emitClifford(gate, ['a', 'b'])!.join(' ')} }`);
+
+    lines.splice(2, 0, ...definitions);
+
+    if (clbits > 0 && version === 3) lines.push(`bit[${clbits}] c;`);
+
+    for (const { name, size } of layout) lines.push(`creg ${name}[${size}];`);
+
+    const bit = (clbit: number) =>
+    {
+        const reg = layout.find(({ offset, size }) => clbit >= offset && clbit < offset + size);
+
+        return reg ? `${reg.name}[${clbit - reg.offset}]` : `c[${clbit}]`;
+    };
+
+    // unbound parameters become inputs of the program
+    const names = new Set(instructions.flatMap(({ gate }) => gate.parameters().map(({ name }) => name)));
+
+    if (names.size > 0 && version === 2) throw new Error(
+        `Error in QuantumCircuit.toQASM(): Unbound parameters have no OpenQASM 2.0 equivalent.`);
+
+    for (const name of names) lines.push(`input float[64] ${name};`);
+
+    for (const instruction of instructions)
+    {
+        const { condition } = instruction;
+        const statements = emitInstruction(instruction, version, bit);
+
+        lines.push(...(condition ? statements.map(emitCondition(condition, clbits, version, layout)) : statements));
+    }
+
+    return lines.join('\n') + '\n';
+}
@@ -56,6 +56,7 @@ export class QMDD
     private static verteces = new Map<string, QMDD>();
     private static sums     = new Map<string, Edge>();
     private static prods    = new Map<string, Edge>();
+    private static inners   = new Map<string, number>();
 
     /**
      * Creates a new `QMDD` vertex (`!!!` unsafely) representing qubit #`variable`, with the given set of `outgoing` edges.
@@ -139,19 +140,6 @@ export class QMDD
         return false;
     }
 
-    /**
-     * Checks whether `this` is a redundant `Vertex`. A `Vertex` object is redundant if it's not the terminal
-     * and all its edges point to the same destination with the same weight.
-     * @returns `true` if `this.edges` is filled with (qualitative) equivalent elements. 
-     */
-    private isRedundant (): boolean
-    {
-        return !(this instanceof VectorQMDD) && !this.isTerminal() && this.edges.every(edge =>
-            edge.dest === this.edges[0].dest &&
-            edge.weight === this.edges[0].weight
-        );
-    }
-
     /**
      * Checks whether `this` is the terminal `Vertex`. A `Vertex` object is considered the terminal
      * iff it has no outgoing edges.
@@ -206,8 +194,9 @@ export class QMDD
         // due to how vector Verteces are defined here, it can arise that all edge weights are 0
         // in that scenario, the vertex is redundant and its edge becomes a zero edge.
         if (weight === 0) return { dest: terminal, weight: 0 };
-        // if trivial or redundant, discard vertex and point to its ancestor
-        if (vertex.isTrivial() || vertex.isRedundant()) vertex = vertex.edges[0].dest;
+        // if trivial, discard vertex and point to its ancestor. Vertices whose edges are all equal are kept, 
+        // since skipped variables stand for the identity (and not for a repeated block)
+        if (vertex.isTrivial()) vertex = vertex.edges[0].dest;
         // if the described vertex already exists, use the old version
         else if (QMDD.verteces.has(vertex.toString())) vertex = QMDD.verteces.get(vertex.toString())!; 
         // put the new vertex into the lookup table
@@ -289,31 +278,35 @@ export class QMDD
     }
 
     /**
-     * Performs matrix-vector multiplication on the given tensor `QMDD`s. `!!!` Order matters. 
-     * @param matrix The `Edge` object pointing to the matrix `QMDD`.
-     * @param vector The `Edge` object pointing to the vector `QMDD`.
+     * Performs matrix-vector or matrix-matrix multiplication on the given tensor `QMDD`s. `!!!` Order matters. 
+     * @param matrix The `Edge` object pointing to the (left) matrix `QMDD`.
+     * @param tensor The `Edge` object pointing to the vector `QMDD`, or to the right matrix `QMDD`.
      * @param terminal The global terminal `QMDD Vertex`.
      * @param level (Implementation detail - ignore) The `Vertex` level concerning the operation.
-     * @returns An `Edge` object pointing to the `QMDD` representing the product `matrix`*`vector`.
+     * @returns An `Edge` object pointing to the `QMDD` representing the product `matrix`*`tensor`.
      */
-    public static multiply (matrix: MatrixEdge, vector: VectorEdge, terminal: QMDD, level?: number): Edge
+    public static multiply (matrix: MatrixEdge, tensor: Edge, terminal: QMDD, level?: number): Edge
     {
-        if (level === undefined) level = Math.min(matrix.dest.variable, vector.dest.variable);  // todo: they do nonterminal checks, must proofcheck this
+        if (level === undefined) level = Math.min(matrix.dest.variable, tensor.dest.variable);  // todo: they do nonterminal checks, must proofcheck this
 
-        if (matrix.weight === 0 || vector.weight === 0)
+        if (matrix.weight === 0 || tensor.weight === 0)
             return { dest: terminal, weight: 0 };
 
         if (matrix.dest.isTerminal())
-            return { dest: vector.dest, weight: Complex.mul(vector.weight, matrix.weight) };
+            return { dest: tensor.dest, weight: Complex.mul(tensor.weight, matrix.weight) };
+
+        if (tensor.dest.isTerminal())  // only matrices can end early, on a (skipped) identity
+            return { dest: matrix.dest, weight: Complex.mul(matrix.weight, tensor.weight) };
 
-        const key = `${matrix.dest.id};${vector.dest.id};${matrix.weight};${vector.weight}`; 
+        const key = `${matrix.dest.id};${tensor.dest.id};${matrix.weight};${tensor.weight}`; 
 
         if (QMDD.prods.has(key)) // reuse existing products
             return { dest: QMDD.prods.get(key)!.dest, weight: QMDD.prods.get(key)!.weight };
 
-        const edges: VectorEdge[] = [{ dest: terminal, weight: 0 }, { dest: terminal, weight: 0 }];
+        const cols = tensor.dest instanceof VectorQMDD ? 1 : 2;
+        const edges: Edge[] = Array.from({ length: 2 * cols }, () => ({ dest: terminal, weight: 0 }));
 
-        for (const i of [0, 1]) for (const j of [0, 1])
+        for (const i of [0, 1]) for (let k = 0; k < cols; k++) for (const j of [0, 1])
         {
             /**                                                              initial edges[i]
              *i = 0: (j=0,1) edges0 = max.e0*vec.e0 + max.e1*vec.e1 (+ 0) <--------|
@@ -321,68 +314,99 @@ export class QMDD
              *=============> edges[i] = max.e[2i+0]*vec[0] + max.e[2i+1]*vec[1] (+ 0)
              *                                   ^       ^            ^       ^ 
              *                                  j=0     j=0          j=1     j=1
+             * 
+             * for a matrix tensor, every column k of the quadrants is computed the same way:
+             *=============> edges[2i+k] = max.e[2i+0]*mat.e[0+k] + max.e[2i+1]*mat.e[2+k] (+ 0)
              */
-            const v: Edge = vector.dest.edges[j];
+            const t: Edge = 
+                tensor.dest.variable === level ? tensor.dest.edges[cols * j + k] :  // if tensor variable agrees with the level, proceed
+                j === k ? { dest: tensor.dest, weight: 1 } : { dest: terminal, weight: 0 };  // otherwise, it is a skipped identity (vectors never skip)
             const m: Edge = 
                 matrix.dest.variable === level ? matrix.dest.edges[2 * i + j] :  // if matrix variable agrees with the level, proceed
                 i == j ? { dest: matrix.dest, weight: 1 } : { dest: terminal, weight: 0 };  // otherwise, deal with the matrix as if it is an identity
 
             // due to the selected order, the level must increase to go down the tree
-            edges[i] = QMDD.add(edges[i], QMDD.multiply(m, v, terminal, level + 1), terminal, level + 1);
+            edges[cols * i + k] = QMDD.add(edges[cols * i + k], QMDD.multiply(m, t, terminal, level + 1), terminal, level + 1);
         }
         const e = QMDD.createVertex(level, edges, terminal);
-        return mapSetReturn(QMDD.prods, key, { dest: e.dest, weight: Complex.mul(e.weight, matrix.weight, vector.weight) });  
+        return mapSetReturn(QMDD.prods, key, { dest: e.dest, weight: Complex.mul(e.weight, matrix.weight, tensor.weight) });  
+    }
+
+    /**
+     * Calculates the inner product <`bra`|`ket`> of the two given vector `QMDD`s, assumed of equal width,
+     * without ever expanding them. The overlaps of vertex pairs are cached regardless of the incoming weights.
+     * @param bra The `Edge` object pointing to the vector `QMDD` to conjugate.
+     * @param ket The `Edge` object pointing to the other vector `QMDD`.
+     * @returns The index of the `Complex` inner product.
+     */
+    public static innerProduct (bra: VectorEdge, ket: VectorEdge): number
+    {
+        if (bra.weight === 0 || ket.weight === 0)
+            return 0;
+
+        const factor = Complex.mul(Complex.get(bra.weight)!.conj().index, ket.weight);
+
+        if (bra.dest.isTerminal())  // vectors span all variables, so both reach the terminal together
+            return factor;
+
+        const key = `${bra.dest.id};${ket.dest.id}`;
+
+        if (!QMDD.inners.has(key))  // <b0|k0> + <b1|k1>
+            QMDD.inners.set(key, Complex.add(
+                QMDD.innerProduct(bra.dest.edges[0], ket.dest.edges[0]), 
+                QMDD.innerProduct(bra.dest.edges[1], ket.dest.edges[1])));
+
+        return Complex.mul(factor, QMDD.inners.get(key)!);
     }
 
     /**
-     * Constructs the passed `Gate` description as a `QMDD`.
-     * @param gate The `Gate` element that operates on the `target` qubit.
-     * @param target The index of the target qubit.
+     * Constructs the passed `Gate` description as a `QMDD`, spanning only the involved (not necessarily adjacent) qubits.
+     * @param gate The `Gate` element that operates on the `target` qubits.
+     * @param target The index of the target qubit, or the indices of the targets for multi-qubit gates (in the order of `gate.matrix()`).
      * @param controls Control information concerning the gate. If not controlled, pass an empty list.
      * @param terminal The global terminal `QMDD Vertex`.
      * @returns An `Edge` object pointing to the `QMDD` representing the specified `gate`.
      */
-    public static construct (gate: Gate, target: number, controls: { index: number, state: string }[], terminal: QMDD): MatrixEdge
+    public static construct (gate: Gate, target: number | number[], controls: { index: number, state: string }[], terminal: QMDD): MatrixEdge
     {
-        let q = 0;
-        const ctrls = controls.sort((a, b) => b.index - a.index);  // in descending order so deeper indices are first
-        const root: MatrixEdge[] = gate.matrix().map(el => ({ dest: terminal, weight: el }));
-        const reusable: MatrixEdge[] = [
-            { dest: terminal, weight: 0 },
-            { dest: terminal, weight: 0 },
-            { dest: terminal, weight: 0 },
-            { dest: terminal, weight: 0 },
-        ];
-
-        // handle the controls below the target (if no controls, skip)
-        for (; q < ctrls.length && ctrls[q].index > target; q++)
-            for (const i of [0, 1]) for (const j of [0, 1])
-            {
-                // a 0-control activates on e0 (0 === 00 -> |0>~>|0>), while an 1-control on e3 (3 === 11 -> |1>~>|1>)
-                const [activator, antiactivator] = (ctrls[q].state === '0' ? [0, 3] : [3, 0]);
-                const edge = 2 * i + j;
-                
-                reusable[activator] = root[edge];
-                reusable[antiactivator] = { dest: terminal, weight: (i === j ? 1 : 0) };
-
-                root[edge] = QMDD.createVertex(ctrls[q].index, reusable, terminal);
-            }
+        const targets = typeof target === 'number' ? [target] : target;
+        const matrix = gate.matrix();
+        const size = 2 ** targets.length;
+        const states = new Map(controls.map(({ index, state }) => [index, state]));
+        const variables = [...targets, ...states.keys()].sort((a, b) => a - b);  // from the root downwards
+        const memo = new Map<string, MatrixEdge>();
+
+        /**
+         * Builds the sub-diagram below `depth`, given the bits of the targets above it (as a row and a column index of
+         * the gate matrix) and whether the controls above it are all satisfied. Unsatisfied controls yield the identity.
+         */
+        const build = (depth: number, row: number, col: number, active: boolean): MatrixEdge =>
+        {
+            if (!active && row !== col) 
+                return { dest: terminal, weight: 0 };
 
-        // handle the target
-        let entry = QMDD.createVertex(target, root, terminal);
+            if (depth === variables.length)
+                return { dest: terminal, weight: active ? matrix[row * size + col] : 1 };
 
-        // handle the controls above the target (if no controls, skip)
-        for (; q < ctrls.length; q++)
-        {
-            const [activator, antiactivator] = (ctrls[q].state === '0' ? [0, 3] : [3, 0]);
+            const key = active ? `${depth};${row};${col}` : `${depth}`;
 
-            reusable[activator] = entry;
-            reusable[antiactivator] = { dest: terminal, weight: 1 };
+            if (memo.has(key)) return memo.get(key)!;
 
-            entry = QMDD.createVertex(ctrls[q].index, reusable, terminal);
-        }
+            const variable = variables[depth];
+            const bit = targets.indexOf(variable);
+            const edges: MatrixEdge[] = [];
+
+            for (const i of [0, 1]) for (const j of [0, 1])
+                edges.push(bit !== -1
+                    // a target selects the quadrant of the gate matrix
+                    ? build(depth + 1, row | (i << bit), col | (j << bit), active)
+                    // a 0-control activates on e0 (0 === 00 -> |0>~>|0>), while an 1-control on e3 (3 === 11 -> |1>~>|1>)
+                    : i !== j ? { dest: terminal, weight: 0 } : build(depth + 1, row, col, active && states.get(variable) === `${i}`));
+
+            return mapSetReturn(memo, key, QMDD.createVertex(variable, edges, terminal));
+        };
 
-        return entry;
+        return build(0, 0, 0, true);
     }
 
     /**
@@ -411,6 +435,202 @@ export class QMDD
         return e;
     }
 
+    /**
+     * Calculates the (unnormalized) probabilities of measuring |0> and |1> on `qubit`, for the vector `QMDD` under `vertex`.
+     * @param vertex The root `Vertex` of the vector `QMDD`.
+     * @param qubit The index of the measured qubit.
+     * @param memo (Implementation detail - ignore) Cache of the already visited verteces.
+     * @returns The pair of probabilities.
+     */
+    private static outcomes (vertex: QMDD, qubit: number, memo: Map<number, [number, number]> = new Map()): [number, number]
+    {
+        if (vertex.variable === qubit)  // the probability of each branch is precalculated
+            return [
+                vertex.edges[0].dest.prob * Complex.get(vertex.edges[0].weight)!.mag2(),
+                vertex.edges[1].dest.prob * Complex.get(vertex.edges[1].weight)!.mag2()
+            ];
+
+        if (memo.has(vertex.id)) return memo.get(vertex.id)!;
+
+        const sum: [number, number] = [0, 0];
+
+        for (const edge of vertex.edges) if (edge.weight !== 0)
+        {
+            const [o0, o1] = QMDD.outcomes(edge.dest, qubit, memo);
+            const mag2 = Complex.get(edge.weight)!.mag2();
+
+            sum[0] += mag2 * o0;
+            sum[1] += mag2 * o1;
+        }
+
+        return mapSetReturn(memo, vertex.id, sum);
+    }
+
+    /**
+     * Calculates the (unnormalized) joint distribution of the `sorted` qubits under `vertex`, for the vector `QMDD`.
+     * Levels past the last of them are never visited, as the selection probabilities of their verteces are precalculated.
+     * @param vertex The root `Vertex` of the vector `QMDD`.
+     * @param sorted The indices of the kept qubits, in ascending order.
+     * @param memo (Implementation detail - ignore) Cache of the already visited verteces.
+     * @returns A `Map` connecting each outcome (the bit of `sorted[0]` first) to its probability.
+     */
+    private static partials (vertex: QMDD, sorted: readonly number[], memo: Map<number, Map<string, number>> = new Map()): Map<string, number>
+    {
+        if (sorted.length === 0 || vertex.variable > sorted.at(-1)!)
+            return new Map([['', vertex.prob]]);
+
+        if (memo.has(vertex.id)) return memo.get(vertex.id)!;
+
+        const kept = sorted.includes(vertex.variable);
+        const sums = new Map<string, number>();
+
+        for (const [i, edge] of vertex.edges.entries()) if (edge.weight !== 0)
+        {
+            const mag2 = Complex.get(edge.weight)!.mag2();
+
+            for (const [outcome, prob] of QMDD.partials(edge.dest, sorted, memo))
+            {
+                const key = (kept ? String(i) : '') + outcome;  // skipped qubits are summed over
+                sums.set(key, (sums.get(key) ?? 0) + mag2 * prob);
+            }
+        }
+
+        return mapSetReturn(memo, vertex.id, sums);
+    }
+
+    /**
+     * Calculates the marginal distribution of the given `qubits` on the vector `QMDD`, without enumerating its basis states.
+     * @param entry The `Edge` pointing to the root of the vector `QMDD`.
+     * @param qubits The indices of the qubits to keep. In the outcomes, `qubits[0]` is the last character.
+     * @returns A `Map` connecting each outcome over `qubits` to its probability (impossible outcomes are not included).
+     */
+    public static marginals (entry: VectorEdge, qubits: readonly number[]): Map<string, number>
+    {
+        const marginals = new Map<string, number>();
+
+        if (entry.weight === 0)
+            return marginals;
+
+        const sorted = [...qubits].sort((a, b) => a - b);
+        const norm = Complex.get(entry.weight)!.mag2();
+
+        for (const [outcome, prob] of QMDD.partials(entry.dest, sorted))
+            marginals.set(qubits.map(q => outcome[sorted.indexOf(q)]).reverse().join(''), norm * prob);
+
+        return marginals;
+    }
+
+    /**
+     * Projects the given vector `QMDD` onto the subspace where `qubit` is in the basis state |`outcome`>. 
+     * The result is not normalized.
+     * @param entry The `Edge` pointing to the root of the vector `QMDD`.
+     * @param qubit The index of the projected qubit.
+     * @param outcome The basis state to project onto.
+     * @param terminal The global terminal `QMDD Vertex`.
+     * @param memo (Implementation detail - ignore) Cache of the already projected verteces.
+     * @returns An `Edge` pointing to the projected vector `QMDD`.
+     */
+    public static project (entry: VectorEdge, qubit: number, outcome: 0 | 1, terminal: QMDD, memo: Map<number, Edge> = new Map()): VectorEdge
+    {
+        if (entry.weight === 0 || entry.dest.isTerminal())
+            return entry;
+
+        let e = memo.get(entry.dest.id);
+
+        if (e === undefined)
+        {
+            const edges = entry.dest.variable === qubit
+                // discard the branch that disagrees with the outcome
+                ? entry.dest.edges.map((edge, i) => i === outcome ? edge : { dest: terminal, weight: 0 })
+                : entry.dest.edges.map(edge => QMDD.project(edge, qubit, outcome, terminal, memo));
+
+            e = mapSetReturn(memo, entry.dest.id, QMDD.createVertex(entry.dest.variable, edges, terminal));
+        }
+
+        return { dest: e.dest, weight: Complex.mul(e.weight, entry.weight) };
+    }
+
+    /**
+     * Performs a projective measurement of `qubit` on the given vector `QMDD`, collapsing it to the drawn outcome.
+     * @param entry The `Edge` pointing to the root of the vector `QMDD`.
+     * @param qubit The index of the measured qubit.
+     * @param rand A seeded RPNG to decide the collapse with.
+     * @param terminal The global terminal `QMDD Vertex`.
+     * @returns The measured outcome and an `Edge` pointing to the collapsed, renormalized vector `QMDD`.
+     */
+    public static measure (entry: VectorEdge, qubit: number, rand: () => number, terminal: QMDD): [0 | 1, VectorEdge]
+    {
+        if (entry.weight === 0)
+            throw new Error(`Error in QMDD.measure(): The passed entry is a zero edge.`);
+
+        if (entry.dest.isTerminal())
+            throw new Error(`Error in QMDD.measure(): The passed entry is a terminal edge.`);
+
+        const [o0, o1] = QMDD.outcomes(entry.dest, qubit);
+        const outcome = rand() < o0 / (o0 + o1) ? 0 : 1;
+        const collapsed = QMDD.project(entry, qubit, outcome, terminal);
+        // the squared norm of the collapsed state is the probability of the outcome, taken exactly where the amplitudes are
+        const norm = Complex.get(QMDD.innerProduct(collapsed, collapsed))!.sqrt();
+
+        return [outcome, { dest: collapsed.dest, weight: Complex.div(collapsed.weight, norm.index) }];
+    }
+
+    /**
+     * Exchanges the |0> and |1> branches of `qubit` on the given vector `QMDD`, i.e. applies a Pauli X on it structurally.
+     * @param entry The `Edge` pointing to the root of the vector `QMDD`.
+     * @param qubit The index of the flipped qubit.
+     * @param terminal The global terminal `QMDD Vertex`.
+     * @param memo (Implementation detail - ignore) Cache of the already flipped verteces.
+     * @returns An `Edge` pointing to the flipped vector `QMDD`.
+     */
+    private static flip (entry: VectorEdge, qubit: number, terminal: QMDD, memo: Map<number, Edge> = new Map()): VectorEdge
+    {
+        if (entry.weight === 0 || entry.dest.isTerminal())
+            return entry;
+
+        let e = memo.get(entry.dest.id);
+
+        if (e === undefined)
+        {
+            const edges = entry.dest.variable === qubit
+                ? [...entry.dest.edges].reverse()
+                : entry.dest.edges.map(edge => QMDD.flip(edge, qubit, terminal, memo));
+
+            e = mapSetReturn(memo, entry.dest.id, QMDD.createVertex(entry.dest.variable, edges, terminal));
+        }
+
+        return { dest: e.dest, weight: Complex.mul(e.weight, entry.weight) };
+    }
+
+    /**
+     * Resets `qubit` to |0> on the given vector `QMDD`. If the qubit is in superposition, it is first measured
+     * (collapsing the rest of the state accordingly), and then flipped to |0> if the outcome was |1>.
+     * 
+     * The RPNG is only consulted if the outcome is not deterministic.
+     * @param entry The `Edge` pointing to the root of the vector `QMDD`.
+     * @param qubit The index of the qubit to reset.
+     * @param rand A seeded RPNG to decide the collapse with.
+     * @param terminal The global terminal `QMDD Vertex`.
+     * @returns An `Edge` pointing to the reset, normalized vector `QMDD`.
+     */
+    public static reset (entry: VectorEdge, qubit: number, rand: () => number, terminal: QMDD): VectorEdge
+    {
+        if (entry.weight === 0)
+            throw new Error(`Error in QMDD.reset(): The passed entry is a zero edge.`);
+
+        if (entry.dest.isTerminal())
+            throw new Error(`Error in QMDD.reset(): The passed entry is a terminal edge.`);
+
+        const [o0, o1] = QMDD.outcomes(entry.dest, qubit);
+
+        if (o1 === 0) return entry;  // already in |0>
+        if (o0 === 0) return QMDD.flip(entry, qubit, terminal);  // certainly in |1>
+
+        const [outcome, collapsed] = QMDD.measure(entry, qubit, rand, terminal);
+
+        return outcome === 0 ? collapsed : QMDD.flip(collapsed, qubit, terminal);
+    }
+
     /**
      * Traverses the vector `QMDD` diagram in full, in preorder DFS fashion, to calculate the amplitudes of all nonzero basis states.
      * @param entry The `Edge` pointing to the root of the vector `QMDD`.
@@ -445,6 +665,275 @@ export class QMDD
         }
     }
 
+    /**
+     * Calculates the amplitude of a single basis `state` on the vector `QMDD`, by following its one root-to-terminal path
+     * and multiplying the weights along it exactly.
+     * @param entry The `Edge` pointing to the root of the vector `QMDD`.
+     * @param state The basis state, as a bitstring spanning all qubits (qubit 0 is the last character).
+     * @param decimals The number of decimal places of precision to keep for the amplitude.
+     * @returns The rounded amplitude as `{Re(amp), Im(amp)}`, along with its `exact` `Complex` representation.
+     */
+    public static amplitude (entry: VectorEdge, state: string, decimals: number): { re: number, im: number, exact: Complex }
+    {
+        let amplitude = entry.weight;
+
+        while (amplitude !== 0 && !entry.dest.isTerminal())
+        {
+            entry = entry.dest.edges[Number(state[state.length - entry.dest.variable - 1])];
+            amplitude = Complex.mul(amplitude, entry.weight);
+        }
+
+        const exact = Complex.get(amplitude)!;
+
+        return { re: round(exact.re(), decimals), im: round(exact.im(), decimals), exact: exact };
+    }
+
+    /**
+     * Searches the given matrix `QMDD` for a column where it differs from the identity (optionally up to a global phase). 
+     * Thanks to canonicity, the matrix is the (scaled) identity iff its entry points straight to the terminal, 
+     * so equivalence is decided in constant time, and only deviating matrices are traversed.
+     * @param entry The `Edge` pointing to the root of the matrix `QMDD`.
+     * @param terminal The global terminal `QMDD Vertex`.
+     * @param upToGlobalPhase Whether to ignore a global phase, as fixed by the first diagonal entry.
+     * @returns The first found deviating column as a basis state, or `undefined` if the matrix is the identity.
+     */
+    public static counterexample (entry: MatrixEdge, terminal: QMDD, upToGlobalPhase: boolean = false): string | undefined
+    {
+        if (entry.weight !== 0 && entry.dest === terminal && (upToGlobalPhase || entry.weight === Complex.ONE))
+            return undefined;
+
+        // the phase the diagonal is expected to carry
+        let phase = upToGlobalPhase ? entry.weight : Complex.ONE;
+
+        if (upToGlobalPhase)
+            for (let e: Edge = entry, level = 0; level < terminal.variable && phase !== 0; level++) if (e.dest.variable === level)
+            {
+                e = e.dest.edges[0];
+                phase = Complex.mul(phase, e.weight);
+            }
+
+        if (phase === 0)  // no phase fits a vanishing diagonal entry
+            return '0'.repeat(terminal.variable);
+
+        return QMDD.deviation(entry, terminal, phase);
+    }
+
+    /**
+     * Searches the given matrix `QMDD` for a column where it differs from `target` times the identity 
+     * (e.g. for a nonzero column, if `target` is zero).
+     * @param entry The `Edge` pointing to the root of the matrix `QMDD`.
+     * @param terminal The global terminal `QMDD Vertex`.
+     * @param target The index of the `Complex` scalar of the identity.
+     * @returns The first found deviating column as a basis state, or `undefined` if there is none.
+     */
+    public static deviation (entry: MatrixEdge, terminal: QMDD, target: number): string | undefined
+    {
+        const memo = new Map<string, string | undefined>();
+
+        /**
+         * Finds a column where the block under `e` (at `level`) differs from `target` times the identity.
+         */
+        const search = (e: Edge, level: number, target: number): string | undefined =>
+        {
+            if (e.weight === 0 || e.dest.isTerminal())  // a scaled identity (possibly zero), deviating on every column if at all
+                return e.weight === target ? undefined : '0'.repeat(terminal.variable - level);
+
+            const key = `${e.dest.id};${e.weight};${level};${target}`;
+
+            if (memo.has(key)) return memo.get(key);
+
+            let column: string | undefined = undefined;
+
+            if (e.dest.variable > level)  // a skipped variable repeats the block on the diagonal
+            {
+                const rest = search(e, level + 1, target);
+                column = rest === undefined ? undefined : rest + '0';
+            }
+            else for (const j of [0, 1])
+            {
+                // the column j of the quadrants must have a zero off-diagonal and a matching diagonal block
+                const [off, diag] = [e.dest.edges[2 * (1 - j) + j], e.dest.edges[3 * j]];
+                const rest = 
+                    search({ dest: off.dest,  weight: Complex.mul(e.weight, off.weight)  }, level + 1, 0) ?? 
+                    search({ dest: diag.dest, weight: Complex.mul(e.weight, diag.weight) }, level + 1, target);
+
+                if (rest !== undefined)
+                {
+                    column = rest + `${j}`;
+                    break;
+                }
+            }
+
+            return mapSetReturn(memo, key, column);
+        };
+
+        return search(entry, 0, target);
+    }
+
+    /**
+     * Conjugates every entry of the given matrix `QMDD` (without transposing it), weight by weight, keeping the 
+     * structure of the diagram (and skipped variables as the identity).
+     * @param entry The `Edge` pointing to the root of the matrix `QMDD`.
+     * @param terminal The global terminal `QMDD Vertex`.
+     * @param memo (Implementation detail - ignore) Cache of the already conjugated verteces.
+     * @returns An `Edge` pointing to the conjugated matrix `QMDD`.
+     */
+    public static conjugate (entry: MatrixEdge, terminal: QMDD, memo: Map<number, Edge> = new Map()): MatrixEdge
+    {
+        if (entry.weight === 0)
+            return entry;
+
+        const weight = Complex.get(entry.weight)!.conj().index;
+
+        if (entry.dest.isTerminal())
+            return { dest: entry.dest, weight: weight };
+
+        if (!memo.has(entry.dest.id))
+            memo.set(entry.dest.id, QMDD.createVertex(entry.dest.variable, entry.dest.edges.map(e => QMDD.conjugate(e, terminal, memo)), terminal));
+
+        const e = memo.get(entry.dest.id)!;
+
+        return { dest: e.dest, weight: Complex.mul(e.weight, weight) };
+    }
+
+    /**
+     * Restricts the given matrix `QMDD` to the inputs of the `ancillas` qubits, for partial equivalence checking: 
+     * the columns where an ancilla is |1> (assumed never fed) are zeroed.
+     * @param entry The `Edge` pointing to the root of the matrix `QMDD`.
+     * @param ancillas The indices of the ancilla qubits.
+     * @param terminal The global terminal `QMDD Vertex`.
+     * @returns An `Edge` pointing to the reduced matrix `QMDD`.
+     */
+    public static reduce (entry: MatrixEdge, ancillas: readonly number[], terminal: QMDD): MatrixEdge
+    {
+        const last = Math.max(-1, ...ancillas);
+        const memo = new Map<string, Edge>();
+
+        const transform = (e: Edge, level: number): Edge =>
+        {
+            if (e.weight === 0 || level > last)  // nothing left to reduce
+                return e;
+
+            let reduced = memo.get(`${e.dest.id};${level}`);
+
+            if (reduced === undefined)
+            {
+                // skipped variables (and the terminal) are expanded as the identity
+                const edges = (e.dest.variable === level 
+                    ? e.dest.edges 
+                    : [{ dest: e.dest, weight: 1 }, { dest: terminal, weight: 0 }, { dest: terminal, weight: 0 }, { dest: e.dest, weight: 1 }]
+                ).map(edge => transform(edge, level + 1));
+
+                if (ancillas.includes(level))
+                    edges[1] = edges[3] = { dest: terminal, weight: 0 };
+
+                reduced = mapSetReturn(memo, `${e.dest.id};${level}`, QMDD.createVertex(level, edges, terminal));
+            }
+
+            return { dest: reduced.dest, weight: Complex.mul(reduced.weight, e.weight) };
+        };
+
+        return transform(entry, 0);
+    }
+
+    /**
+     * Takes the partial trace over the `garbage` qubits of the given superoperator `QMDD`, i.e. of the matrix of 
+     * `U ⊗ U*` acting on vectorized density matrices, with qubit q of `U` on variable 2q and its conjugate copy on 
+     * variable 2q+1. Column (i, j) of the result is then Tr_garbage(U|i><j|U†), laid onto the rows where the garbage 
+     * qubits are |0> in both copies.
+     * @param entry The `Edge` pointing to the root of the superoperator `QMDD`.
+     * @param garbage The indices of the qubits to trace out.
+     * @param terminal The global terminal `QMDD Vertex` (of twice the width of `U`).
+     * @param diagonal (Optional) Whether to also zero the columns (i, j) where i ≠ j, keeping only the basis inputs |i><i|.
+     * @returns An `Edge` pointing to the traced superoperator `QMDD`.
+     */
+    public static trace (entry: MatrixEdge, garbage: readonly number[], terminal: QMDD, diagonal: boolean = false): MatrixEdge
+    {
+        const last = diagonal ? terminal.variable - 2 : 2 * Math.max(-1, ...garbage);
+        const memo = new Map<string, Edge>();
+        const zero = { dest: terminal, weight: 0 };
+
+        // the quadrants of `e` on the variable `level`, skipped variables (and the terminal) being the identity
+        const quadrants = (e: Edge, level: number): Edge[] => 
+            e.weight === 0 ? [zero, zero, zero, zero] :
+            e.dest.variable === level ? e.dest.edges.map(({ dest, weight }) => ({ dest: dest, weight: Complex.mul(e.weight, weight) })) :
+                                        [e, zero, zero, e];
+
+        const transform = (e: Edge, level: number): Edge =>
+        {
+            if (e.weight === 0 || level > last)  // nothing left to trace
+                return e;
+
+            let traced = memo.get(`${e.dest.id};${level}`);
+
+            if (traced === undefined)
+            {
+                // the blocks below the pair of variables of a qubit, as [2 * row + col][2 * row' + col'] 
+                let blocks = quadrants({ dest: e.dest, weight: 1 }, level).map(quadrant => 
+                    quadrants(quadrant, level + 1).map(block => transform(block, level + 2)));
+
+                if (diagonal)
+                    blocks = blocks.map((inner, i) => inner.map((block, j) => (i & 1) === (j & 1) ? block : zero));
+
+                if (garbage.includes(level / 2))
+                {
+                    // only the rows where both copies agree contribute to the trace, summed onto row (0, 0)
+                    const sums = [0, 1].map(c => [0, 1].map(d => QMDD.add(blocks[c][d], blocks[2 + c][2 + d], terminal, level + 2)));
+
+                    blocks = [[...sums[0], zero, zero], [...sums[1], zero, zero], [zero, zero, zero, zero], [zero, zero, zero, zero]];
+                }
+
+                traced = mapSetReturn(memo, `${e.dest.id};${level}`, 
+                    QMDD.createVertex(level, blocks.map(inner => QMDD.createVertex(level + 1, inner, terminal)), terminal));
+            }
+
+            return { dest: traced.dest, weight: Complex.mul(traced.weight, e.weight) };
+        };
+
+        return transform(entry, 0);
+    }
+
+    /**
+     * Traverses the matrix `QMDD` diagram in full, in preorder DFS fashion, to calculate all of its nonzero entries.
+     * Skipped variables are expanded as the identity.
+     * @param entry The `Edge` pointing to the root of the matrix `QMDD`.
+     * @param terminal The global terminal `QMDD Vertex`.
+     * @param decimals The number of decimal places of precision to keep for the entries.
+     * @yields The resulting matrix in chunks of `{row, col, Re(entry), Im(entry)}`, with rows and columns as basis states.
+     */
+    public static* entries (entry: MatrixEdge, terminal: QMDD, decimals: number): Generator<{ row: string, col: string, re: number, im: number }>
+    {
+        if (entry.weight === 0)
+            throw new Error(`Error in QMDD.entries(): The passed entry is a zero edge.`);
+
+        const stack: { v: QMDD, w: number, level: number, r: string, c: string }[] = [{ v: entry.dest, w: entry.weight, level: 0, r: '', c: '' }];
+
+        while (stack.length > 0)
+        {
+            const { v, w, level, r, c } = stack.pop()!;
+
+            if (level === terminal.variable)
+            {
+                const complex = Complex.get(w)!;
+                yield { row: r, col: c, re: round(complex.re(), decimals), im: round(complex.im(), decimals) };
+                continue;
+            }
+            // traverse preorderly, staying on the diagonal of skipped variables
+            for (const i of [3, 2, 1, 0])
+            {
+                const edge = v.variable === level ? v.edges[i] : { dest: v, weight: i === 0 || i === 3 ? 1 : 0 };
+
+                if (edge.weight !== 0) stack.push({ 
+                    v: edge.dest, 
+                    w: Complex.mul(w, edge.weight), 
+                    level: level + 1, 
+                    r: (i < 2 ? '0' : '1') + r, 
+                    c: (i % 2 === 0 ? '0' : '1') + c 
+                });
+            }
+        }
+    }
+
     /**
      * Performs single-shot weak simulation on the given `entry` vector `QMDD`.
      * The `QMDD` is not altered during traversal.
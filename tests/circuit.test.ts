@@ -1,5 +1,8 @@
 import { QuantumCircuit } from "../src/circuit";
-import { H, T, X } from "../src/gates";
+import { ECR, H, I, iSWAP, Measure, P, Reset, RX, S, SWAP, SX, T, UnitaryGate, X, Z } from "../src/gates";
+import { Parameter } from "../src/parameter";
+import { Complex } from "../src/complex";
+import { Observable } from "../src/observable";
 
 type QC = QuantumCircuit;
 type n = number;
@@ -71,6 +74,18 @@ describe('QuantumCircuit: ', () =>
             expect([depth1, qc.depth()]).toEqual([2, 3]);
         });
 
+    test('.depth() counts columns of multi-qubit operations', () =>
+    {
+        const qc = 
+            new QuantumCircuit(3)
+            .x(0)
+            .cx(0, 1)
+            .x(1)
+            .x(2);
+
+        expect(qc.depth()).toBe(3);
+    });
+
     describe('Erroneous inputs in .append(): ', () =>
     {
         test('Control test (normal case)', () =>
@@ -114,6 +129,15 @@ describe('QuantumCircuit: ', () =>
             expect(() => { new QuantumCircuit(3).append(new X(), 0, [1, 2], 'as'); })
             .toThrow(`Error in QuantumCircuit.append(): Unrecognized character found in ctrlState, '0' or '1' were expected.`);
         });
+
+        test('Number of targets disagrees with the gate', () =>
+        {
+            expect(() => { new QuantumCircuit(3).append(new SWAP(), 0); })
+            .toThrow(`Error in QuantumCircuit.append(): SWAP acts on 2 qubits but 1 targets were given.`);
+
+            expect(() => { new QuantumCircuit(3).append(new X(), [0, 1]); })
+            .toThrow(`Error in QuantumCircuit.append(): X acts on 1 qubits but 2 targets were given.`);
+        });
     });
 
     describe('Erroneous inputs in .appendStep(): ', () =>
@@ -153,6 +177,12 @@ describe('QuantumCircuit: ', () =>
             expect(() => { new QuantumCircuit(5).appendStep([new X(), new X(), new H(), new T()], [0, 2, 3, 2]); })
             .toThrow(`Error in QuantumCircuit.appendStep(): Duplicate qubit index detected.`);
         });
+
+        test('Multi-qubit gates requested', () =>
+        {
+            expect(() => { new QuantumCircuit(3).appendStep([new X(), new SWAP()], [0, 1]); })
+            .toThrow(`Error in QuantumCircuit.appendStep(): Only single-qubit gates can form a step (received SWAP).`);
+        });
     });
 
     describe('Erroneous inputs in .initialize(): ', () =>
@@ -501,4 +531,2007 @@ describe('QuantumCircuit: ', () =>
         expect(states.size).toBe(2 ** qubits);
         expect(Math.max(...states.values())).toBe(1);
     });
-});
\ No newline at end of file
+});
+describe('QuantumCircuit.fromQASM(): ', () =>
+{
+    test('GHZ state from OpenQASM', () =>
+    {
+        const qc = QuantumCircuit.fromQASM(`
+            OPENQASM 2.0;
+            include "qelib1.inc";
+            gate ghz a, b, c { h a; cx a, b; cx b, c; }
+            qreg q[3];
+            ghz q[0], q[1], q[2];
+        `);
+
+        expect(qc.width()).toBe(3);
+        expect([...qc.statevector()]).toEqual([
+            { state: '000', re: a, im: 0 },
+            { state: '111', re: a, im: 0 }]);
+    });
+
+    test('Controlled phases and swaps from OpenQASM', () =>
+    {
+        const qc = QuantumCircuit.fromQASM(`
+            OPENQASM 2.0;
+            include "qelib1.inc";
+            qreg q[3];
+            x q;
+            cu1(pi/4) q[0], q[1];
+            tdg q[1];
+            cswap q[2], q[0], q[1];
+            swap q[0], q[2];
+        `);
+
+        expect([...qc.statevector()]).toEqual([{ state: '111', re: 1, im: 0 }]);
+    });
+});
+
+describe('QuantumCircuit.toQASM(): ', () =>
+{
+    test('OpenQASM 2.0 export', () =>
+    {
+        const qc = 
+            new QuantumCircuit(3)
+            .h(0)
+            .t(1, true)
+            .cx(0, 1, '0')
+            .cs(1, 2)
+            .ccz(0, 1, 2)
+            .cswap(2, 0, 1);
+
+        expect(qc.toQASM()).toBe([
+            'OPENQASM 2.0;',
+            'include "qelib1.inc";',
+            'qreg q[3];',
+            'h q[0];',
+            'tdg q[1];',
+            'x q[0];',
+            'cx q[0], q[1];',
+            'x q[0];',
+            'cu1(pi/2) q[1], q[2];',
+            'h q[2];',
+            'ccx q[1], q[0], q[2];',
+            'h q[2];',
+            'cswap q[2], q[0], q[1];',
+            ''
+        ].join('\n'));
+    });
+
+    test('OpenQASM 3.0 export', () =>
+    {
+        const qc = 
+            new QuantumCircuit(4)
+            .appendStep([new H(), new X()], [0, 3])
+            .swap(1, 2)
+            .mcx([0, 1, 2], 3, '110')
+            .ccx(0, 1, 2)
+            .append(new T(), 0, [1]);
+
+        expect(qc.toQASM(3)).toBe([
+            'OPENQASM 3.0;',
+            'include "stdgates.inc";',
+            'qubit[4] q;',
+            'h q[0];',
+            'x q[3];',
+            'swap q[1], q[2];',
+            'ctrl(2) @ negctrl @ x q[0], q[1], q[2], q[3];',
+            'ccx q[1], q[0], q[2];',
+            'ctrl @ t q[1], q[0];',
+            ''
+        ].join('\n'));
+    });
+
+    test('Round trip through OpenQASM 2.0', () =>
+    {
+        const qc = 
+            new QuantumCircuit(3)
+            .initialize('1+r')
+            .ch(0, 2, '0')
+            .ccx(0, 2, 1)
+            .swap(0, 1)
+            .append(new T(true), 2, [1]);
+
+        const copy = QuantumCircuit.fromQASM(qc.toQASM());
+
+        expect([...copy.statevector()]).toEqual([...qc.statevector()]);
+    });
+
+    test('Gates outside of qelib1.inc are decomposed exactly', () =>
+    {
+        const roundtrip = (qc: QuantumCircuit) => QuantumCircuit.equivalent(QuantumCircuit.fromQASM(qc.toQASM()), qc);
+
+        expect(roundtrip(new QuantumCircuit(4).mcx([0, 1, 2], 3))).toEqual({ equivalent: true });
+        expect(roundtrip(new QuantumCircuit(5).mcx([3, 0, 1, 4], 2, '1001'))).toEqual({ equivalent: true });
+        expect(roundtrip(new QuantumCircuit(4).mcz([0, 1, 2], 3).mcp([3, 1], 0, 0.3).append(new T(true), 0, [1, 2, 3]))).toEqual({ equivalent: true });
+        expect(roundtrip(new QuantumCircuit(3).append(new iSWAP(), [0, 2]).append(new iSWAP(true), [1, 0]))).toEqual({ equivalent: true });
+        expect(roundtrip(new QuantumCircuit(2).append(new ECR(), [1, 0]).append(new ECR(), [0, 1]))).toEqual({ equivalent: true });
+
+        expect(new QuantumCircuit(4).mcx([0, 1, 2], 3).toQASM().split('\n').slice(3, -1)).toEqual([
+            'h q[3];',
+            'cu1(pi/2) q[2], q[3];',
+            'ccx q[0], q[1], q[2];',
+            'cu1(-pi/2) q[2], q[3];',
+            'ccx q[0], q[1], q[2];',
+            'cu1(pi/4) q[1], q[3];',
+            'cx q[0], q[1];',
+            'cu1(-pi/4) q[1], q[3];',
+            'cx q[0], q[1];',
+            'cu1(pi/4) q[0], q[3];',
+            'h q[3];'
+        ]);
+        expect(new QuantumCircuit(2).append(new ECR(), [0, 1]).toQASM().split('\n').slice(3, -1))
+        .toEqual(['cz q[0], q[1];', 'rx(pi/2) q[1];', 'cz q[0], q[1];', 'x q[0];']);
+    });
+
+    test('OpenQASM 3.0 defines the gates missing from stdgates.inc', () =>
+    {
+        const qc = new QuantumCircuit(3).append(new iSWAP(), [0, 1]).append(new iSWAP(true), [1, 2], [0], '0').append(new ECR(), [2, 0], [1]);
+
+        expect(qc.toQASM(3)).toBe([
+            'OPENQASM 3.0;',
+            'include "stdgates.inc";',
+            'gate iswap a, b { s a; s b; h a; cx a, b; cx b, a; h b; }',
+            'gate ecr a, b { cz a, b; rx(pi/2) b; cz a, b; x a; }',
+            'qubit[3] q;',
+            'iswap q[0], q[1];',
+            'negctrl @ inv @ iswap q[0], q[1], q[2];',
+            'ctrl @ ecr q[1], q[2], q[0];',
+            ''
+        ].join('\n'));
+        expect(new QuantumCircuit(2).append(new ECR(), [0, 1]).toQASM(3)).not.toContain('iswap');
+    });
+
+    test('Inexpressible operations', () =>
+    {
+        expect(() => { new QuantumCircuit(3).append(new iSWAP(), [1, 2], [0]).toQASM(); })
+        .toThrow('Error in QuantumCircuit.toQASM(): A iSWAP gate with 1 controls has no OpenQASM 2.0 equivalent.');
+        expect(() => { new QuantumCircuit(3).append(new ECR(), [1, 2], [0]).toQASM(); })
+        .toThrow('Error in QuantumCircuit.toQASM(): A ECR gate with 1 controls has no OpenQASM 2.0 equivalent.');
+        expect(() => { new QuantumCircuit(4).mch([0, 1], 3).toQASM(); })
+        .toThrow('Error in QuantumCircuit.toQASM(): A h gate with 2 controls has no OpenQASM 2.0 equivalent.');
+
+        // @ts-expect-error
+        expect(() => { new QuantumCircuit(1).toQASM(4); })
+        .toThrow('Error in QuantumCircuit.toQASM(): Unsupported OpenQASM version 4, 2 or 3 were expected.');
+    });
+});
+
+describe('QuantumCircuit.data: ', () =>
+{
+    test('Empty circuit has no instructions', () =>
+    {
+        expect(new QuantumCircuit(3).data).toEqual([]);
+    });
+
+    test('Operations are logged in order', () =>
+    {
+        const qc = 
+            new QuantumCircuit(3)
+            .h(0)
+            .append(new I(), 1)
+            .cx(0, 1, '0')
+            .appendStep([new X(), new I(), new T(true)], [2, 0, 1])
+            .cswap(0, 1, 2);
+
+        expect(qc.data).toEqual([
+            { gate: new H(),     targets: [0],    controls: [],  ctrlState: ''  },
+            { gate: new X(),     targets: [1],    controls: [0], ctrlState: '0' },
+            { gate: new X(),     targets: [2],    controls: [],  ctrlState: ''  },
+            { gate: new T(true), targets: [1],    controls: [],  ctrlState: ''  },
+            { gate: new SWAP(),  targets: [1, 2], controls: [0], ctrlState: '1' }
+        ]);
+        expect([...qc]).toEqual(qc.data);
+    });
+
+    test('.initialize() restarts the log', () =>
+    {
+        const qc = 
+            new QuantumCircuit(2)
+            .h(0)
+            .cx(0, 1)
+            .initialize('-1');
+
+        expect(qc.data.map(el => [el.gate, el.targets[0]])).toEqual([[new X(), 1], [new H(), 1], [new X(), 0]]);
+    });
+
+    test('Logged instructions are independent of the passed arrays', () =>
+    {
+        const controls = [1, 2];
+        const qc = new QuantumCircuit(3).mcx(controls, 0);
+
+        controls.push(5);
+
+        expect(qc.data[0].controls).toEqual([1, 2]);
+    });
+});
+
+describe('QuantumCircuit.inverse(): ', () =>
+{
+    test('Operations are adjoint and reversed', () =>
+    {
+        const qc = 
+            new QuantumCircuit(3)
+            .h(0)
+            .t(1)
+            .cs(0, 2, '0')
+            .cswap(0, 1, 2)
+            .inverse();
+
+        expect(qc.width()).toBe(3);
+        expect(qc.depth()).toBe(3);
+        expect(qc.data).toEqual([
+            { gate: new SWAP(),  targets: [1, 2], controls: [0], ctrlState: '1' },
+            { gate: new S(true), targets: [2],    controls: [0], ctrlState: '0' },
+            { gate: new T(true), targets: [1],    controls: [],  ctrlState: ''  },
+            { gate: new H(),     targets: [0],    controls: [],  ctrlState: ''  }
+        ]);
+    });
+
+    test('U·U† = I', () =>
+    {
+        const qc = 
+            new QuantumCircuit(3)
+            .h([0, 1, 2])
+            .t(0)
+            .ccx(0, 1, 2, '01')
+            .s(2, true)
+            .ch(2, 0)
+            .cy(1, 0);
+
+        const miter = new QuantumCircuit(3);
+
+        for (const { gate, targets, controls, ctrlState } of [...qc, ...qc.inverse()])
+            miter.append(gate, targets[0], [...controls], ctrlState);
+
+        expect([...miter.statevector()]).toEqual([{ state: '000', re: 1, im: 0 }]);
+    });
+
+    test('Inverse of the inverse', () =>
+    {
+        const qc = 
+            new QuantumCircuit(2)
+            .initialize('r-')
+            .swap(0, 1)
+            .t(1, true);
+
+        expect([...qc.inverse().inverse().statevector()]).toEqual([...qc.statevector()]);
+    });
+
+    test('Classical bits and seed are kept', () =>
+    {
+        for (const seed of ['a', 'b', 'c', 'd'])
+        {
+            const inverse = new QuantumCircuit(2, 2, seed).h([0, 1]).inverse();
+
+            expect(inverse.clbits()).toBe(2);
+            expect([...inverse.measure([0, 1], [0, 1]).statevector()])
+            .toEqual([...new QuantumCircuit(2, 2, seed).h([0, 1]).measure([0, 1], [0, 1]).statevector()]);
+        }
+    });
+});
+
+describe('QuantumCircuit.compose(): ', () =>
+{
+    describe('Erroneous inputs: ', () =>
+    {
+        test('Control test (normal case)', () =>
+        {
+            expect(() => { new QuantumCircuit(3).compose(new QuantumCircuit(2), [2, 0]); }).not.toThrow();
+            expect(() => { new QuantumCircuit(3).compose(new QuantumCircuit(3)); }).not.toThrow();
+        });
+
+        test('Too many qubits requested', () =>
+        {
+            expect(() => { new QuantumCircuit(2).compose(new QuantumCircuit(3)); })
+            .toThrow('Error in QuantumCircuit.compose(): Too many qubits requested (declared width is 2 but 3 indices were received).');
+
+            expect(() => { new QuantumCircuit(2).compose(new QuantumCircuit(3), [0, 1, 2]); })
+            .toThrow('Error in QuantumCircuit.compose(): Too many qubits requested (declared width is 2 but 3 indices were received).');
+        });
+
+        test('Unequal number of indices and composed width', () =>
+        {
+            expect(() => { new QuantumCircuit(3).compose(new QuantumCircuit(2), [0]); })
+            .toThrow('Error in QuantumCircuit.compose(): Unequal number of qubit indices (1) and composed circuit width (2) given.');
+        });
+
+        test('Out of bounds qubits requested', () =>
+        {
+            expect(() => { new QuantumCircuit(3).compose(new QuantumCircuit(2), [0, 3]); })
+            .toThrow('Error in QuantumCircuit.compose(): Out of bounds qubit requested (received index 3, expected [0, 3)).');
+        });
+
+        test('Duplicate qubit instance', () =>
+        {
+            expect(() => { new QuantumCircuit(3).compose(new QuantumCircuit(2), [1, 1]); })
+            .toThrow('Error in QuantumCircuit.compose(): Duplicate qubit index detected.');
+        });
+    });
+
+    test('Operations are remapped', () =>
+    {
+        const bell = 
+            new QuantumCircuit(2)
+            .h(0)
+            .cx(0, 1, '0');
+
+        const qc = 
+            new QuantumCircuit(4)
+            .x(3)
+            .compose(bell, [3, 1]);
+
+        expect(qc.depth()).toBe(3);
+        expect(qc.data.slice(1)).toEqual([
+            { gate: new H(), targets: [3], controls: [],  ctrlState: ''  },
+            { gate: new X(), targets: [1], controls: [3], ctrlState: '0' }
+        ]);
+        expect([...qc.statevector()]).toEqual([
+            { state: '1000', re: -a, im: 0 },
+            { state: '0010', re:  a, im: 0 }]);
+    });
+
+    test('Composing a circuit with itself', () =>
+    {
+        const qc = 
+            new QuantumCircuit(2)
+            .x(0)
+            .cx(0, 1);
+
+        qc.compose(qc);
+
+        expect(qc.data.length).toBe(4);
+        expect([...qc.statevector()]).toEqual([{ state: '10', re: 1, im: 0 }]);
+    });
+
+    test('Composing with the inverse yields the identity', () =>
+    {
+        const qc = 
+            new QuantumCircuit(3)
+            .h([0, 1, 2])
+            .t(0)
+            .swap(0, 2)
+            .ch(2, 0)
+            .cswap(1, 0, 2, '0');
+
+        expect([...qc.compose(qc.inverse()).statevector()]).toEqual([{ state: '000', re: 1, im: 0 }]);
+    });
+});
+
+describe('QuantumCircuit.appendControlled(): ', () =>
+{
+    const bell = 
+        new QuantumCircuit(2)
+        .h(0)
+        .cx(0, 1);
+
+    test('Control lists are merged', () =>
+    {
+        const qc = new QuantumCircuit(4).appendControlled(bell, [3, 0], '10', [2, 1]);
+
+        expect(qc.data).toEqual([
+            { gate: new H(), targets: [2], controls: [3, 0],    ctrlState: '10'  },
+            { gate: new X(), targets: [1], controls: [2, 3, 0], ctrlState: '110' }
+        ]);
+    });
+
+    for (const { init, sv } of [
+        { init: '000', sv: [{ state: '000', re: 1, im: 0 }] },
+        { init: '100', sv: [{ state: '100', re: a, im: 0 }, { state: '111', re: a, im: 0 }] }
+    ])
+        test(`Controlled subroutine for initial state |${init}>`, () =>
+        {
+            const qc = 
+                new QuantumCircuit(3)
+                .initialize(init)
+                .appendControlled(bell, [2]);
+
+            expect([...qc.statevector()]).toEqual(sv);
+        });
+
+    test('Controlled swaps in subroutines', () =>
+    {
+        const sub = new QuantumCircuit(2).swap(0, 1);
+        const qc = 
+            new QuantumCircuit(3)
+            .initialize('001')
+            .appendControlled(sub, [2], '0');
+
+        expect([...qc.statevector()]).toEqual([{ state: '010', re: 1, im: 0 }]);
+    });
+
+    test('Controls acted upon by the subroutine', () =>
+    {
+        expect(() => { new QuantumCircuit(3).appendControlled(bell, [1]); })
+        .toThrow('Error in QuantumCircuit.appendControlled(): Control qubit 1 is also acted upon by the controlled circuit.');
+    });
+
+    test('Erroneous control states', () =>
+    {
+        expect(() => { new QuantumCircuit(3).appendControlled(bell, [2], '00'); })
+        .toThrow('Error in QuantumCircuit.appendControlled(): Unequal number of controls (1) and control states (2) given.');
+
+        expect(() => { new QuantumCircuit(3).appendControlled(bell, [2], 'a'); })
+        .toThrow(`Error in QuantumCircuit.appendControlled(): Unrecognized character found in ctrlState, '0' or '1' were expected.`);
+    });
+});
+
+describe('QuantumCircuit.control(): ', () =>
+{
+    test('Controlled copy of a circuit', () =>
+    {
+        const qc = 
+            new QuantumCircuit(3)
+            .h(0)
+            .t(1)
+            .control([2], '0');
+
+        expect(qc.width()).toBe(3);
+        expect(qc.data).toEqual([
+            { gate: new H(), targets: [0], controls: [2], ctrlState: '0' },
+            { gate: new T(), targets: [1], controls: [2], ctrlState: '0' }
+        ]);
+    });
+
+    test('The original circuit is not altered', () =>
+    {
+        const qc = new QuantumCircuit(2).x(0);
+
+        qc.control([1]);
+
+        expect(qc.data).toEqual([{ gate: new X(), targets: [0], controls: [], ctrlState: '' }]);
+    });
+});
+
+describe('QuantumCircuit.measure(): ', () =>
+{
+    describe('Erroneous inputs: ', () =>
+    {
+        test('Control test (normal case)', () =>
+        {
+            expect(() => { new QuantumCircuit(2, 2).measure([0, 1], [1, 0]); }).not.toThrow();
+        });
+
+        test('Erroneous classical bit specification', () =>
+        {
+            expect(() => { new QuantumCircuit(2, -1); })
+            .toThrow('Error in QuantumCircuit(): Cannot create a circuit with -1 classical bits.');
+        });
+
+        test('Out of bounds classical bit requested', () =>
+        {
+            expect(() => { new QuantumCircuit(2, 1).measure(0, 1); })
+            .toThrow('Error in QuantumCircuit.measure(): Out of bounds classical bit requested (received index 1, expected [0, 1)).');
+        });
+
+        test('Out of bounds qubit requested', () =>
+        {
+            expect(() => { new QuantumCircuit(2, 1).measure(2, 0); })
+            .toThrow('Error in QuantumCircuit.measure(): Out of bounds qubit requested (received index 2, expected [0, 2)).');
+        });
+
+        test('Unequal number of qubits and classical bits', () =>
+        {
+            expect(() => { new QuantumCircuit(2, 2).measure([0, 1], 0); })
+            .toThrow('Error in QuantumCircuit.measure(): Unequal number of qubit (2) and classical bit (1) indices given.');
+        });
+    });
+
+    test('Measuring basis states is deterministic', () =>
+    {
+        const qc = 
+            new QuantumCircuit(3, 3)
+            .initialize('101')
+            .measure([0, 1, 2], [0, 1, 2]);
+
+        expect(qc.register()).toBe('101');
+        expect([...qc.statevector()]).toEqual([{ state: '101', re: 1, im: 0 }]);
+    });
+
+    test('Measurement collapses entangled states', () =>
+    {
+        for (let i = 0; i < 20; i++)
+        {
+            const qc = 
+                new QuantumCircuit(3, 1)
+                .h(0)
+                .cx(0, 1)
+                .cx(1, 2)
+                .measure(1, 0);
+
+            const state = qc.register().repeat(3);
+
+            expect([...qc.statevector()]).toEqual([{ state: state, re: 1, im: 0 }]);
+        }
+    });
+
+    test('Measurement renormalizes the remaining superposition', () =>
+    {
+        const qc = 
+            new QuantumCircuit(2, 1, 'seed')
+            .h([0, 1])
+            .t(1)
+            .measure(0, 0);
+
+        const sv = [...qc.statevector()];
+        const norm = sv.reduce((acc, { re, im }) => acc + re * re + im * im, 0);
+
+        expect(sv.length).toBe(2);
+        expect(norm).toBeCloseTo(1, 3);
+        expect(sv.every(({ state }) => state[1] === qc.register())).toBe(true);
+    });
+
+    test('Outcomes follow the amplitudes', () =>
+    {
+        // T·H|0> followed by H is |0> with probability cos^2(pi/8)
+        let zeros = 0;
+        const runs = 2000;
+
+        for (let i = 0; i < runs; i++)
+            if (new QuantumCircuit(1, 1, i).h(0).t(0).h(0).measure(0, 0).register() === '0') zeros++;
+
+        expect(zeros / runs).toBeCloseTo(Math.cos(Math.PI / 8) ** 2, 1);
+    });
+
+    test('Seeded measurements are reproducible', () =>
+    {
+        const run = () => 
+            new QuantumCircuit(4, 4, 'lmaoo')
+            .h([0, 1, 2, 3])
+            .measure([0, 1, 2, 3], [0, 1, 2, 3])
+            .register();
+
+        expect(run()).toBe(run());
+    });
+
+    test('Measurements are logged, drawn and exported', () =>
+    {
+        const qc = 
+            new QuantumCircuit(2, 2)
+            .x(1)
+            .measure(1, 0);
+
+        expect(qc.data[1]).toEqual({ gate: new Measure(), targets: [1], controls: [], ctrlState: '', clbits: [0] });
+        expect(qc.draw()).toBe('q0: ─────────\n\nq1: ─┤X├─┤M├─');
+        expect(qc.toQASM()).toBe('OPENQASM 2.0;\ninclude "qelib1.inc";\nqreg q[2];\ncreg c[2];\nx q[1];\nmeasure q[1] -> c[0];\n');
+        expect(qc.toQASM(3)).toBe('OPENQASM 3.0;\ninclude "stdgates.inc";\nqubit[2] q;\nbit[2] c;\nx q[1];\nc[0] = measure q[1];\n');
+        expect(QuantumCircuit.fromQASM(qc.toQASM()).register()).toBe('01');
+    });
+
+    test('Measurements are irreversible and cannot be controlled', () =>
+    {
+        const qc = new QuantumCircuit(2, 1).measure(0, 0);
+
+        expect(() => { qc.inverse(); })
+        .toThrow('Error in QuantumCircuit.inverse(): Measurements are not reversible.');
+
+        expect(() => { new QuantumCircuit(3, 1).appendControlled(qc, [2]); })
+        .toThrow('Error in QuantumCircuit.appendControlled(): Measurements cannot be controlled.');
+
+        expect(() => { new QuantumCircuit(3).compose(qc); })
+        .toThrow('Error in QuantumCircuit.compose(): Out of bounds classical bit requested (received index 0, expected [0, 0)).');
+    });
+
+    test('.initialize() clears the classical register', () =>
+    {
+        const qc = 
+            new QuantumCircuit(1, 1)
+            .x(0)
+            .measure(0, 0)
+            .initialize('0');
+
+        expect(qc.register()).toBe('0');
+    });
+
+    test('Collapsed states stay exact', () =>
+    {
+        for (const seed of ['a', 'b', 'c', 'd'])
+        {
+            const bell = new QuantumCircuit(2, 1, seed).h(0).cx(0, 1).measure(0, 0);
+            const state = bell.register() === '1' ? '11' : '00';
+
+            expect(bell.amplitude(state).exact.index).toBe(Complex.ONE);
+            expect([...bell.statevector()]).toEqual([{ state: state, re: 1, im: 0 }]);
+
+            // outcomes of probability 1/4 and 3/4 renormalize by 2 and 2/sqrt(3)
+            const uneven = new QuantumCircuit(3, 1, seed).h([0, 1]).ccx(0, 1, 2).h(0).t(2).measure(2, 0);
+            const amplitudes = [...Array(8).keys()].map(i => uneven.amplitude(i).exact);
+
+            expect(amplitudes.filter(amplitude => amplitude.isNumeric()).length).toBe(uneven.register() === '1' ? 0 : 3);
+            expect(amplitudes.reduce((sum, amplitude) => sum + amplitude.mag2(), 0)).toBeCloseTo(1, 12);
+        }
+
+        expect(new QuantumCircuit(1, 1, 'seed').h(0).measure(0, 0).amplitude(0).exact.isNumeric()).toBe(false);
+    });
+});
+
+describe('QuantumCircuit.reset(): ', () =>
+{
+    test('Out of bounds qubit requested', () =>
+    {
+        expect(() => { new QuantumCircuit(2).reset(2); })
+        .toThrow('Error in QuantumCircuit.reset(): Out of bounds qubit requested (received index 2, expected [0, 2)).');
+    });
+
+    test('Resetting basis states', () =>
+    {
+        const qc = 
+            new QuantumCircuit(3)
+            .initialize('111')
+            .reset([0, 2]);
+
+        expect([...qc.statevector()]).toEqual([{ state: '010', re: 1, im: 0 }]);
+    });
+
+    test('Resetting a qubit of a product state keeps the rest intact', () =>
+    {
+        const qc = 
+            new QuantumCircuit(2)
+            .h([0, 1])
+            .reset(0);
+
+        const a = Math.round(Math.SQRT1_2 * 1e4) / 1e4;
+
+        expect([...qc.statevector()]).toEqual([{ state: '00', re: a, im: 0 }, { state: '10', re: a, im: 0 }]);
+    });
+
+    test('Resetting an entangled qubit collapses its partners', () =>
+    {
+        for (let i = 0; i < 20; i++)
+        {
+            const sv = [...new QuantumCircuit(3).h(0).cx(0, 1).cx(0, 2).reset(0).statevector()];
+
+            expect(sv.length).toBe(1);
+            expect(['000', '110']).toContain(sv[0].state);
+        }
+    });
+
+    test('Seeded resets are reproducible', () =>
+    {
+        const run = () => [...new QuantumCircuit(4, 0, 'seed').h([0, 1, 2, 3]).cx(0, 1).cx(2, 3).reset([0, 2]).statevector()];
+
+        expect(run()).toEqual(run());
+    });
+
+    test('Ancillas can be recycled', () =>
+    {
+        // compute the parity of q0, q1 on the ancilla twice, resetting in between
+        const qc = 
+            new QuantumCircuit(3, 2)
+            .x(0)
+            .cx(0, 2)
+            .cx(1, 2)
+            .measure(2, 0)
+            .reset(2)
+            .x(1)
+            .cx(0, 2)
+            .cx(1, 2)
+            .measure(2, 1);
+
+        expect(qc.register()).toBe('01');
+    });
+
+    test('Resets are logged, drawn and exported', () =>
+    {
+        const qc = 
+            new QuantumCircuit(2)
+            .x(1)
+            .reset(1);
+
+        expect(qc.data[1]).toEqual({ gate: new Reset(), targets: [1], controls: [], ctrlState: '' });
+        expect(qc.draw()).toBe('q0: ───────────\n\nq1: ─┤X├─┤|0⟩├─');
+        expect(qc.toQASM()).toBe('OPENQASM 2.0;\ninclude "qelib1.inc";\nqreg q[2];\nx q[1];\nreset q[1];\n');
+        expect(qc.toQASM(3)).toBe('OPENQASM 3.0;\ninclude "stdgates.inc";\nqubit[2] q;\nx q[1];\nreset q[1];\n');
+        expect([...QuantumCircuit.fromQASM(qc.toQASM()).statevector()]).toEqual([{ state: '00', re: 1, im: 0 }]);
+    });
+
+    test('Resets are irreversible and cannot be controlled', () =>
+    {
+        const qc = new QuantumCircuit(2).reset(0);
+
+        expect(() => { qc.inverse(); })
+        .toThrow('Error in QuantumCircuit.inverse(): Resets are not reversible.');
+
+        expect(() => { new QuantumCircuit(3).appendControlled(qc, [2]); })
+        .toThrow('Error in QuantumCircuit.appendControlled(): Resets cannot be controlled.');
+    });
+});
+
+describe('Classically conditioned operations: ', () =>
+{
+    describe('Erroneous inputs: ', () =>
+    {
+        test('Control test (normal case)', () =>
+        {
+            expect(() => { new QuantumCircuit(2, 2).x(0, { clbits: [1, 0], value: 3 }); }).not.toThrow();
+        });
+
+        test('Out of bounds classical bit requested', () =>
+        {
+            expect(() => { new QuantumCircuit(2, 1).z(0, { clbits: [1], value: 1 }); })
+            .toThrow('Error in QuantumCircuit.append(): Out of bounds classical bit requested (received index 1, expected [0, 1)).');
+        });
+
+        test('Duplicate classical bit index', () =>
+        {
+            expect(() => { new QuantumCircuit(2, 2).h([0, 1], { clbits: [1, 1], value: 1 }); })
+            .toThrow('Error in QuantumCircuit.appendStep(): Duplicate classical bit index detected.');
+        });
+
+        test('Empty condition', () =>
+        {
+            expect(() => { new QuantumCircuit(2, 2).swap(0, 1, { clbits: [], value: 0 }); })
+            .toThrow('Error in QuantumCircuit.swap(): A condition must involve at least one classical bit.');
+        });
+
+        for (const value of [-1, 4, 0.5])
+            test(`Unrepresentable condition value (${value})`, () =>
+            {
+                expect(() => { new QuantumCircuit(2, 2).append(new X(), 0, [], '', { clbits: [0, 1], value: value }); })
+                .toThrow(`Error in QuantumCircuit.append(): Condition value ${value} cannot be held by 2 classical bits.`);
+            });
+    });
+
+    test('Conditions are evaluated against the classical register', () =>
+    {
+        const qc = 
+            new QuantumCircuit(3, 2)
+            .x(0)
+            .measure(0, 1)
+            .x(1, { clbits: [1], value: 1 })
+            .x(2, { clbits: [0, 1], value: 1 })
+            .s(2, false, { clbits: [0, 1], value: 2 });
+
+        expect([...qc.statevector()]).toEqual([{ state: '011', re: 1, im: 0 }]);
+        // the conditioned operations wait for the measurement
+        expect(qc.depth()).toBe(4);
+        expect(qc.data.map(({ condition }) => condition)).toEqual([
+            undefined, 
+            undefined, 
+            { clbits: [1], value: 1 }, 
+            { clbits: [0, 1], value: 1 }, 
+            { clbits: [0, 1], value: 2 }
+        ]);
+    });
+
+    test('Quantum teleportation', () =>
+    {
+        for (let i = 0; i < 20; i++)
+        {
+            const qc = 
+                new QuantumCircuit(3, 2)
+                .h(0)
+                .t(0)  // the state to teleport, (|0> + e^(i*pi/4)|1>)/sqrt(2)
+                .h(1)
+                .cx(1, 2)
+                .cx(0, 1)
+                .h(0)
+                .measure([0, 1], [0, 1])
+                .x(2, { clbits: [1], value: 1 })
+                .z(2, { clbits: [0], value: 1 });
+
+            const a = Math.round(Math.SQRT1_2 * 1e4) / 1e4;
+
+            expect([...qc.statevector()]).toEqual([
+                { state: '0' + qc.register(), re: a, im: 0 },
+                { state: '1' + qc.register(), re: 0.5, im: 0.5 }
+            ]);
+        }
+    });
+
+    test('Conditions are kept by compose() and appendControlled(), but cannot be inverted', () =>
+    {
+        const sub = new QuantumCircuit(2, 1).x(1, { clbits: [0], value: 0 });
+        const composed = new QuantumCircuit(2, 1).compose(sub, [1, 0]);
+        const controlled = new QuantumCircuit(3, 1).x(2).appendControlled(sub, [2]);
+
+        expect([...composed.statevector()]).toEqual([{ state: '01', re: 1, im: 0 }]);
+        expect([...controlled.statevector()]).toEqual([{ state: '110', re: 1, im: 0 }]);
+        expect(sub.control([0]).data[0].condition).toEqual({ clbits: [0], value: 0 });
+
+        expect(() => { new QuantumCircuit(2).compose(sub); })
+        .toThrow('Error in QuantumCircuit.compose(): Out of bounds classical bit requested (received index 0, expected [0, 0)).');
+
+        expect(() => { sub.inverse(); })
+        .toThrow('Error in QuantumCircuit.inverse(): Classically conditioned operations are not reversible.');
+    });
+
+    test('Conditions over more than 32 classical bits', () =>
+    {
+        const clbits = [...Array(40).keys()];
+        const whole = new QuantumCircuit(2, 40).x(0).measure(0, 35).x(1, { clbits: clbits, value: 2 ** 35 });
+        // the last bit of the condition is c1, and the first one is c40
+        const partial = 
+            new QuantumCircuit(3, 41)
+            .x(0)
+            .measure(0, 1)
+            .x(1, { clbits: clbits.map(c => c + 1).reverse(), value: 2 ** 39 })
+            .x(2, { clbits: clbits.map(c => c + 1).reverse(), value: 1 });
+
+        expect([...whole.statevector()]).toEqual([{ state: '11', re: 1, im: 0 }]);
+        expect([...partial.statevector()]).toEqual([{ state: '011', re: 1, im: 0 }]);
+        expect(whole.toQASM()).toContain('if(c==34359738368) x q[1];');
+        expect(whole.toQASM(3)).toContain('if (c == 34359738368) { x q[1]; }');
+        expect(whole.draw()).toContain('c34=0,c35=1,c36=0');
+        expect(partial.toQASM()).toContain('if(c1==1) x q[1];\nif(c1==549755813888) x q[2];');
+        expect(partial.toQASM(3)).toContain('if (c[40] && !c[39]');
+    });
+
+    test('Conditioned operations are exported and imported', () =>
+    {
+        const qc = 
+            new QuantumCircuit(2, 2)
+            .x(0)
+            .measure(0, 0)
+            .cx(0, 1)
+            .append(new X(), 1, [0], '0', { clbits: [0, 1], value: 3 })
+            .h(1, { clbits: [0, 1], value: 1 });
+
+        expect(qc.toQASM()).toBe([
+            'OPENQASM 2.0;',
+            'include "qelib1.inc";',
+            'qreg q[2];',
+            'creg c[2];',
+            'x q[0];',
+            'measure q[0] -> c[0];',
+            'cx q[0], q[1];',
+            'if(c==3) x q[0];',
+            'if(c==3) cx q[0], q[1];',
+            'if(c==3) x q[0];',
+            'if(c==1) h q[1];',
+            ''
+        ].join('\n'));
+
+        expect(new QuantumCircuit(2, 2).z(0, { clbits: [1], value: 0 }).z(1, { clbits: [1, 0], value: 2 }).toQASM(3)).toBe([
+            'OPENQASM 3.0;',
+            'include "stdgates.inc";',
+            'qubit[2] q;',
+            'bit[2] c;',
+            'if (!c[1]) { z q[0]; }',
+            'if (!c[1] && c[0]) { z q[1]; }',
+            ''
+        ].join('\n'));
+
+        const imported = QuantumCircuit.fromQASM(qc.toQASM());
+
+        expect(imported.toQASM()).toBe(qc.toQASM());
+        expect([...imported.statevector()]).toEqual([...qc.statevector()]);
+    });
+
+    test('Conditions on part of the classical register get registers of their own', () =>
+    {
+        const qc = new QuantumCircuit(2, 3).x(1).measure(1, 1).x(1, { clbits: [1], value: 1 }).z(0, { clbits: [2, 1], value: 1 });
+
+        expect(() => qc.toQASM()).toThrow('Error in QuantumCircuit.toQASM(): Conditions on overlapping parts of the classical register have no OpenQASM 2.0 equivalent.');
+        
+        const split = new QuantumCircuit(2, 3).x(1).measure(1, 1).x(1, { clbits: [1], value: 1 }).z(0, { clbits: [2], value: 0 });
+
+        expect(split.toQASM()).toBe([
+            'OPENQASM 2.0;',
+            'include "qelib1.inc";',
+            'qreg q[2];',
+            'creg c0[1];',
+            'creg c1[1];',
+            'creg c2[1];',
+            'x q[1];',
+            'measure q[1] -> c1[0];',
+            'if(c1==1) x q[1];',
+            'if(c2==0) z q[0];',
+            ''
+        ].join('\n'));
+        expect(split.register()).toBe('010');
+        expect([...QuantumCircuit.fromQASM(split.toQASM()).statevector()]).toEqual([...split.statevector()]);
+
+        // the bits of a condition are read by their position in the register
+        expect(new QuantumCircuit(1, 2).x(0, { clbits: [1, 0], value: 1 }).toQASM().split('\n').slice(3, 5))
+        .toEqual(['creg c[2];', 'if(c==2) x q[0];']);
+
+        expect(() => new QuantumCircuit(1, 3).x(0, { clbits: [0, 2], value: 1 }).toQASM())
+        .toThrow('Error in QuantumCircuit.toQASM(): Conditions on non-adjacent classical bits have no OpenQASM 2.0 equivalent.');
+    });
+
+    test('Conditioned measurements and resets survive a round trip', () =>
+    {
+        const source = [
+            'OPENQASM 2.0;',
+            'include "qelib1.inc";',
+            'qreg q[2];',
+            'creg c[2];',
+            'x q[0];',
+            'x q[1];',
+            'measure q[0] -> c[0];',
+            'if(c==1) measure q[1] -> c[1];',
+            'if(c==3) reset q[0];',
+            'if(c==1) reset q[1];',
+            ''
+        ].join('\n');
+        const imported = QuantumCircuit.fromQASM(source);
+
+        expect(imported.register()).toBe('11');
+        expect([...imported.statevector()]).toEqual([{ state: '10', re: 1, im: 0 }]);
+        expect(imported.toQASM()).toBe(source);
+        expect(imported.depth()).toBe(4);
+    });
+
+    test('Multiple classical registers survive a round trip', () =>
+    {
+        const source = [
+            'OPENQASM 2.0;',
+            'include "qelib1.inc";',
+            'qreg q[3];',
+            'creg a[1];',
+            'creg b[2];',
+            'x q[0];',
+            'measure q[0] -> b[1];',
+            'if(b==2) x q[1];',
+            'if(a==0) h q[2];',
+            'if(b==1) z q[2];',
+            'measure q[1] -> a[0];',
+            ''
+        ].join('\n');
+        const imported = QuantumCircuit.fromQASM(source);
+        const exported = imported.toQASM();
+
+        expect(exported).toBe(source.replace(/\ba\b/g, 'c0').replace(/\bb\b/g, 'c1'));
+        expect(QuantumCircuit.fromQASM(exported).register()).toBe(imported.register());
+        expect([...QuantumCircuit.fromQASM(exported).statevector()]).toEqual([...imported.statevector()]);
+    });
+});
+
+describe('Rotation gates: ', () =>
+{
+    const a = Math.round(Math.SQRT1_2 * 1e4) / 1e4;
+
+    test('Rotations on the computational basis', () =>
+    {
+        expect([...new QuantumCircuit(1).rx(0, Math.PI).statevector()]).toEqual([{ state: '1', re: 0, im: -1 }]);
+        expect([...new QuantumCircuit(1).ry(0, Math.PI / 2).statevector()]).toEqual([{ state: '0', re: a, im: 0 }, { state: '1', re: a, im: 0 }]);
+        expect([...new QuantumCircuit(1).x(0).rz(0, Math.PI / 2).statevector()]).toEqual([{ state: '1', re: a, im: a }]);
+        expect([...new QuantumCircuit(1).h(0).p(0, 0.3).statevector()]).toEqual([
+            { state: '0', re: a, im: 0 }, 
+            { state: '1', re: Number((Math.SQRT1_2 * Math.cos(0.3)).toFixed(4)), im: Number((Math.SQRT1_2 * Math.sin(0.3)).toFixed(4)) }
+        ]);
+    });
+
+    test('Phase rotations on lists of qubits', () =>
+    {
+        expect([...new QuantumCircuit(2).x([0, 1]).rz([0, 1], Math.PI / 2).statevector()]).toEqual([{ state: '11', re: 0, im: 1 }]);
+        expect([...new QuantumCircuit(2).x([0, 1]).p([0, 1], Math.PI / 2).statevector()]).toEqual([{ state: '11', re: -1, im: 0 }]);
+        expect([...new QuantumCircuit(3).h([0, 1, 2]).rz([0, 2], 0.4).statevector()])
+        .toEqual([...new QuantumCircuit(3).h([0, 1, 2]).rz(0, 0.4).rz(2, 0.4).statevector()]);
+        expect([...new QuantumCircuit(3).h([0, 1, 2]).p([1, 2], 0.4).statevector()])
+        .toEqual([...new QuantumCircuit(3).h([0, 1, 2]).p(1, 0.4).p(2, 0.4).statevector()]);
+    });
+
+    test('Arbitrary amplitudes', () =>
+    {
+        // prepare sqrt(0.3)|0> + sqrt(0.7)|1>
+        const sv = [...new QuantumCircuit(1).ry(0, 2 * Math.acos(Math.sqrt(0.3))).statevector(8)];
+
+        expect(sv.map(({ re }) => re ** 2)).toEqual([expect.closeTo(0.3, 6), expect.closeTo(0.7, 6)]);
+    });
+
+    test('Exact angles reproduce the Clifford+T gates', () =>
+    {
+        const exact = new QuantumCircuit(2).h([0, 1]).t(0).s(1).cx(0, 1);
+        const rotated = new QuantumCircuit(2).u([0, 1], Math.PI / 2, 0, Math.PI).p(0, Math.PI / 4).p(1, Math.PI / 2).cx(0, 1);
+
+        expect([...rotated.statevector()]).toEqual([...exact.statevector()]);
+    });
+
+    test('Numerically equal weights are merged', () =>
+    {
+        const step = new QuantumCircuit(2).rx([0, 1], 0.1).rx([0, 1], 0.1).rx([0, 1], 0.1);
+        const once = new QuantumCircuit(2).rx([0, 1], 0.3);
+
+        expect([...step.statevector(12)]).toEqual([...once.statevector(12)]);
+        // rotating back lands exactly on the ground state
+        expect([...step.rx([0, 1], -0.3).statevector()]).toEqual([{ state: '00', re: 1, im: 0 }]);
+    });
+
+    test('Variational circuits are undone by their inverse', () =>
+    {
+        const qc = new QuantumCircuit(4);
+
+        for (let layer = 0; layer < 3; layer++)
+        {
+            for (let q = 0; q < 4; q++)
+                qc.ry(q, 0.37 * (layer + 1) + q).rz(q, -0.21 * q + layer);
+
+            for (let q = 0; q < 3; q++)
+                qc.cx(q, q + 1);
+
+            qc.append(new RX(0.5 + layer), 0, [3]);
+        }
+
+        qc.compose(qc.inverse());
+
+        expect([...qc.statevector()]).toEqual([{ state: '0000', re: 1, im: 0 }]);
+    });
+
+    test('Rotations are logged, drawn and exported', () =>
+    {
+        const qc = 
+            new QuantumCircuit(2)
+            .rx(0, Math.PI / 2)
+            .u(1, 0.1, 0.2, 0.3)
+            .append(new P(0.5), 1, [0]);
+
+        expect(qc.data[0]).toEqual({ gate: new RX(Math.PI / 2), targets: [0], controls: [], ctrlState: '' });
+        expect(qc.draw()).toBe([
+            'q0: ────┤RX(π/2)├────────●─────',
+            '                         │',
+            'q1: ─┤U(0.1,0.2,0.3)├─┤P(0.5)├─'
+        ].join('\n'));
+        expect(qc.toQASM()).toBe([
+            'OPENQASM 2.0;',
+            'include "qelib1.inc";',
+            'qreg q[2];',
+            `rx(${Math.PI / 2}) q[0];`,
+            'u3(0.1, 0.2, 0.3) q[1];',
+            'cu1(0.5) q[0], q[1];',
+            ''
+        ].join('\n'));
+        expect(qc.toQASM(3)).toBe([
+            'OPENQASM 3.0;',
+            'include "stdgates.inc";',
+            'qubit[2] q;',
+            `rx(${Math.PI / 2}) q[0];`,
+            'U(0.1, 0.2, 0.3) q[1];',
+            'ctrl @ p(0.5) q[0], q[1];',
+            ''
+        ].join('\n'));
+        expect([...QuantumCircuit.fromQASM(qc.toQASM()).statevector()]).toEqual([...qc.statevector()]);
+    });
+});
+
+describe('Symbolic parameters: ', () =>
+{
+    const theta = new Parameter('theta');
+    const gamma = new Parameter('gamma');
+
+    const ansatz = () => 
+        new QuantumCircuit(3)
+        .h([0, 1, 2])
+        .ry([0, 1], theta)
+        .cx(0, 1)
+        .rz(2, gamma.times(2))
+        .cx(1, 2)
+        .u(0, theta, 0, gamma);
+
+    test('Unbound parameters are listed', () =>
+    {
+        expect(ansatz().parameters()).toEqual([gamma, theta]);
+        expect(new QuantumCircuit(1).rx(0, 0.3).parameters()).toEqual([]);
+    });
+
+    test('Simulation is deferred until binding', () =>
+    {
+        const qc = ansatz();
+
+        expect(() => { qc.statevector(); })
+        .toThrow('Error in QuantumCircuit.statevector(): Cannot simulate a circuit with unbound parameters (gamma, theta), assign them first.');
+
+        expect(() => { qc.sample(); })
+        .toThrow('Error in QuantumCircuit.sample(): Cannot simulate a circuit with unbound parameters (gamma, theta), assign them first.');
+
+        expect(qc.depth()).toBe(4);
+        expect(qc.data.length).toBe(9);
+    });
+
+    test('Binding matches the numeric circuit', () =>
+    {
+        const qc = ansatz();
+
+        for (const [t, g] of [[0.3, -1.1], [Math.PI / 2, 0], [2.5, 0.7]])
+        {
+            const numeric = 
+                new QuantumCircuit(3)
+                .h([0, 1, 2])
+                .ry([0, 1], t)
+                .cx(0, 1)
+                .rz(2, 2 * g)
+                .cx(1, 2)
+                .u(0, t, 0, g);
+
+            const bound = qc.assignParameters({ theta: t, gamma: g });
+
+            expect(bound.parameters()).toEqual([]);
+            expect(bound.depth()).toBe(numeric.depth());
+            expect([...bound.statevector()]).toEqual([...numeric.statevector()]);
+        }
+
+        // the template is left untouched
+        expect(qc.parameters()).toEqual([gamma, theta]);
+    });
+
+    test('Partial binding', () =>
+    {
+        const partial = ansatz().assignParameters({ gamma: 0.1 });
+
+        expect(partial.parameters()).toEqual([theta]);
+        expect(() => { partial.statevector(); }).toThrow('(theta)');
+        expect(partial.assignParameters({ theta: 0.2 }).statevector().next().value)
+        .toEqual(ansatz().assignParameters({ theta: 0.2, gamma: 0.1 }).statevector().next().value);
+    });
+
+    test('Operations before the first parameter are simulated eagerly', () =>
+    {
+        const qc = new QuantumCircuit(2, 1).x(0).measure(0, 0).rx(1, theta).x(1, { clbits: [0], value: 1 });
+
+        expect(qc.register()).toBe('1');
+
+        const bound = qc.assignParameters({ theta: Math.PI });
+
+        expect(bound.register()).toBe('1');
+        expect([...bound.statevector()]).toEqual([{ state: '01', re: 0, im: -1 }]);
+    });
+
+    test('Measurements are replayed with the same seed', () =>
+    {
+        const qc = new QuantumCircuit(4, 4, 'seed').rx([0, 1, 2, 3], theta).measure([0, 1, 2, 3], [0, 1, 2, 3]);
+        const registers = [...Array(5)].map(() => qc.assignParameters({ theta: Math.PI / 2 }).register());
+
+        expect(new Set(registers).size).toBe(1);
+    });
+
+    test('Inverse, compose and control keep the parameters', () =>
+    {
+        const qc = new QuantumCircuit(2).rx(0, theta).cx(0, 1);
+        const round = new QuantumCircuit(3).compose(qc).compose(qc.inverse()).appendControlled(qc, [2]);
+
+        expect(round.parameters()).toEqual([theta]);
+        expect([...round.assignParameters({ theta: 1.234 }).statevector()]).toEqual([{ state: '000', re: 1, im: 0 }]);
+    });
+
+    test('Erroneous bindings', () =>
+    {
+        expect(() => { ansatz().assignParameters({ phi: 0.1 }); })
+        .toThrow(`Error in QuantumCircuit.assignParameters(): Unknown parameter 'phi'.`);
+
+        expect(() => { ansatz().assignParameters({ theta: Infinity }); })
+        .toThrow(`Error in QuantumCircuit.assignParameters(): Non-finite value passed for parameter 'theta'.`);
+    });
+
+    test('Parameters are drawn and exported as inputs', () =>
+    {
+        const qc = new QuantumCircuit(2).rx(0, theta).append(new P(gamma.times(-1)), 1, [0]);
+
+        expect(qc.draw()).toBe([
+            'q0: ─┤RX(theta)├──────●──────',
+            '                      │',
+            'q1: ─────────────┤P(-gamma)├─'
+        ].join('\n'));
+        expect(qc.toQASM(3)).toBe([
+            'OPENQASM 3.0;',
+            'include "stdgates.inc";',
+            'qubit[2] q;',
+            'input float[64] theta;',
+            'input float[64] gamma;',
+            'rx(theta) q[0];',
+            'ctrl @ p(-gamma) q[0], q[1];',
+            ''
+        ].join('\n'));
+
+        expect(() => { qc.toQASM(); })
+        .toThrow('Error in QuantumCircuit.toQASM(): Unbound parameters have no OpenQASM 2.0 equivalent.');
+    });
+});
+
+describe('Custom unitaries: ', () =>
+{
+    const sx = new UnitaryGate([[{ re: 0.5, im: 0.5 }, { re: 0.5, im: -0.5 }], [{ re: 0.5, im: -0.5 }, { re: 0.5, im: 0.5 }]], 'SX');
+
+    test('Square roots compose to the gate they stem from', () =>
+    {
+        const appended = new QuantumCircuit(2).append(sx, 0).append(sx, 0).append(sx, 1, [0]).append(sx, 1, [0]);
+        const stepped = new QuantumCircuit(2).appendStep([sx, sx], [0, 1]).appendStep([sx, sx], [0, 1]);
+
+        expect([...appended.statevector()]).toEqual([...new QuantumCircuit(2).x(0).cx(0, 1).statevector()]);
+        expect([...stepped.statevector()]).toEqual([{ state: '11', re: 1, im: 0 }]);
+    });
+
+    test('Custom unitaries are undone by their inverse', () =>
+    {
+        const custom = new UnitaryGate([[Math.cos(0.4), { re: 0, im: Math.sin(0.4) }], [{ re: 0, im: Math.sin(0.4) }, Math.cos(0.4)]]);
+        const qc = new QuantumCircuit(2).h(0).append(custom, 1, [0]).appendStep([sx, custom], [0, 1]);
+
+        qc.compose(qc.inverse());
+
+        expect([...qc.statevector()]).toEqual([{ state: '00', re: 1, im: 0 }]);
+    });
+
+    test('Custom unitaries are logged, drawn and exported', () =>
+    {
+        const qc = new QuantumCircuit(2).append(sx, 1, [0]);
+
+        expect(qc.data[0]).toEqual({ gate: sx, targets: [1], controls: [0], ctrlState: '1' });
+        expect(qc.draw()).toBe([
+            'q0: ──●───',
+            '      │',
+            'q1: ─┤SX├─'
+        ].join('\n'));
+        expect(qc.toQASM().split('\n').slice(3, -1)).toEqual(['cu3(pi/2, -pi/2, pi/2) q[0], q[1];', 'u1(pi/4) q[0];']);
+
+        const rotation = new UnitaryGate([[{ re: 0.6, im: 0 }, { re: 0, im: -0.8 }], [{ re: 0, im: 0.8 }, { re: -0.6, im: 0 }]]);
+        const custom = new QuantumCircuit(2).h([0, 1]).append(sx, 0).append(rotation, 1).append(rotation, 0, [1], '0');
+
+        expect(QuantumCircuit.equivalent(QuantumCircuit.fromQASM(custom.toQASM()), custom)).toEqual({ equivalent: true });
+        expect(() => { new QuantumCircuit(3).append(sx, 2, [0, 1]).toQASM(); })
+        .toThrow('Error in QuantumCircuit.toQASM(): A SX gate with 2 controls has no OpenQASM 2.0 equivalent.');
+        expect(() => { new QuantumCircuit(2).append(new UnitaryGate([[1, 0, 0, 0], [0, 0, 1, 0], [0, 1, 0, 0], [0, 0, 0, 1]]), [0, 1]).toQASM(); })
+        .toThrow('Error in QuantumCircuit.toQASM(): A 2-qubit UnitaryGate has no OpenQASM 2.0 equivalent.');
+    });
+
+    test('Custom unitaries are exported to OpenQASM 3.0', () =>
+    {
+        expect(new QuantumCircuit(2).append(sx, 1, [0], '0').toQASM(3).split('\n').slice(3, -1))
+        .toEqual(['negctrl @ U(pi/2, -pi/2, pi/2) q[0], q[1];', 'negctrl @ gphase(pi/4) q[0];']);
+        expect(new QuantumCircuit(1).append(new UnitaryGate([[{ re: 0, im: 1 }, 0], [0, { re: 0, im: 1 }]]), 0).toQASM(3).split('\n').slice(3, -1))
+        .toEqual(['U(0, 0, 0) q[0];', 'gphase(pi/2);']);
+        // multi-qubit unitaries are split into two-level unitaries, rotating the basis states in Gray code order
+        expect(new QuantumCircuit(2).append(new UnitaryGate([[1, 0, 0, 0], [0, 0, 1, 0], [0, 1, 0, 0], [0, 0, 0, 1]]), [0, 1]).toQASM(3).split('\n').slice(3, -1))
+        .toEqual([
+            'ctrl @ U(0, 0, pi) q[1], q[0];',
+            'ctrl @ gphase(pi) q[1];',
+            'ctrl @ U(pi, 0, 0) q[1], q[0];',
+            'ctrl @ U(pi, 0, 0) q[0], q[1];',
+            'ctrl @ U(pi, 0, 0) q[1], q[0];',
+            'ctrl @ gphase(pi) q[1];'
+        ]);
+        const ccz = new UnitaryGate([...Array(8).keys()].map(row => [...Array(8).keys()].map(col => row !== col ? 0 : row === 7 ? -1 : 1)));
+
+        expect(new QuantumCircuit(4).append(ccz, [1, 2, 3], [0]).toQASM(3).split('\n').slice(3, -1).every(line => /^ctrl.* @ (U|gphase)\(/.test(line)))
+        .toBe(true);
+    });
+});
+
+describe('Multi-qubit gates: ', () =>
+{
+    const toffoli = new UnitaryGate([...Array(8).keys()].map(row => [...Array(8).keys()].map(col => ((row & 3) === 3 ? row ^ 4 : row) === col ? 1 : 0)), 'CCX');
+
+    test('SWAPs exchange non-adjacent qubits natively', () =>
+    {
+        const qc = new QuantumCircuit(4).x(0).h(1).swap(0, 3).cswap(1, 3, 2, '1');
+
+        expect([...qc.statevector()]).toEqual([...new QuantumCircuit(4).h(1).x(3).cx(1, 2).cx(1, 3).statevector()]);
+        expect(qc.depth()).toBe(3);
+    });
+
+    test('iSWAP and its adjoint', () =>
+    {
+        expect([...new QuantumCircuit(3).x(0).iswap(0, 2).statevector()]).toEqual([{ state: '100', re: 0, im: 1 }]);
+        expect([...new QuantumCircuit(3).x(0).iswap(0, 2, true).statevector()]).toEqual([{ state: '100', re: 0, im: -1 }]);
+        expect([...new QuantumCircuit(3).h([0, 2]).iswap(2, 0).iswap(0, 2, true).h([0, 2]).statevector()]).toEqual([{ state: '000', re: 1, im: 0 }]);
+    });
+
+    test('ECR is self-inverse and directed', () =>
+    {
+        const a = Math.round(Math.SQRT1_2 * 1e4) / 1e4;
+
+        expect([...new QuantumCircuit(2).ecr(0, 1).statevector()]).toEqual([{ state: '01', re: a, im: 0 }, { state: '11', re: 0, im: -a }]);
+        expect([...new QuantumCircuit(2).ecr(1, 0).statevector()]).toEqual([{ state: '10', re: a, im: 0 }, { state: '11', re: 0, im: -a }]);
+        expect([...new QuantumCircuit(2).h(0).ecr(1, 0).ecr(1, 0).statevector()]).toEqual([...new QuantumCircuit(2).h(0).statevector()]);
+    });
+
+    test('Multi-qubit unitaries over scattered targets and controls', () =>
+    {
+        const custom = new QuantumCircuit(5).h([0, 1, 4]).append(toffoli, [4, 0, 2], [1], '0');
+        const native = new QuantumCircuit(5).h([0, 1, 4]).mcx([1, 4, 0], 2, '011');
+
+        expect([...custom.statevector()]).toEqual([...native.statevector()]);
+        expect(custom.data[3]).toEqual({ gate: toffoli, targets: [4, 0, 2], controls: [1], ctrlState: '0' });
+    });
+
+    test('Multi-qubit gates are inverted, controlled and composed', () =>
+    {
+        const sub = new QuantumCircuit(3).h(0).append(toffoli, [0, 1, 2]).iswap(2, 1).ecr(0, 2);
+        const qc = new QuantumCircuit(4).x(3).appendControlled(sub, [3], "", [0, 1, 2]);
+
+        expect(qc.data[3]).toEqual({ gate: new iSWAP(), targets: [2, 1], controls: [3], ctrlState: '1' });
+
+        qc.compose(qc.inverse());
+
+        expect([...qc.statevector()]).toEqual([{ state: '0000', re: 1, im: 0 }]);
+    });
+
+    test('Multi-qubit gates are drawn with their target positions', () =>
+    {
+        expect(new QuantumCircuit(3).ecr(2, 0).append(toffoli, [0, 2, 1]).draw()).toBe([
+            'q0: ─┤ECR₁├─┤CCX₀├─',
+            '       │      │',
+            'q1: ───┼────┤CCX₂├─',
+            '       │      │',
+            'q2: ─┤ECR₀├─┤CCX₁├─'
+        ].join('\n'));
+    });
+});
+
+describe('Extended gate library: ', () =>
+{
+    test('SX is the square root of X', () =>
+    {
+        expect([...new QuantumCircuit(2).sx([0, 1]).sx(0).sx(1).statevector()]).toEqual([{ state: '11', re: 1, im: 0 }]);
+        expect([...new QuantumCircuit(1).h(0).sx(0).sx(0, true).statevector()]).toEqual([...new QuantumCircuit(1).h(0).statevector()]);
+        expect([...new QuantumCircuit(2).x(1).csx(1, 0).csx(1, 0).statevector()]).toEqual([{ state: '11', re: 1, im: 0 }]);
+        expect([...new QuantumCircuit(2).csx(1, 0, '0').csx(1, 0, '0').statevector()]).toEqual([{ state: '01', re: 1, im: 0 }]);
+    });
+
+    test('Controlled phases on pi/2^k reproduce the Clifford+T gates', () =>
+    {
+        const phased = new QuantumCircuit(3).h([0, 1, 2]).cp(0, 1, Math.PI).cp(1, 2, Math.PI / 2).cp(2, 0, Math.PI / 4, '0');
+        const exact = new QuantumCircuit(3).h([0, 1, 2]).cz(0, 1).cs(1, 2).append(new T(), 0, [2], '0');
+
+        expect([...phased.statevector()]).toEqual([...exact.statevector()]);
+    });
+
+    test('The QFT of a basis state is undone by its inverse', () =>
+    {
+        const qft = new QuantumCircuit(4);
+
+        for (let i = 3; i >= 0; i--)
+        {
+            qft.h(i);
+
+            for (let j = i - 1; j >= 0; j--)
+                qft.cp(j, i, Math.PI / 2 ** (i - j));
+        }
+
+        const qc = new QuantumCircuit(4).x([0, 2]).compose(qft);
+        const amplitudes = [...qc.statevector()];
+
+        expect(amplitudes).toHaveLength(16);
+        expect(amplitudes.every(({ re, im }) => Math.abs(re ** 2 + im ** 2 - 1 / 16) < 1e-4)).toBe(true);
+        expect([...qc.compose(qft.inverse()).statevector()]).toEqual([{ state: '0101', re: 1, im: 0 }]);
+    });
+
+    test('Phase estimation of a phase on pi/2^k stays bit-exact', () =>
+    {
+        let registered = 0;
+
+        while (Complex.has(registered)) registered++;
+
+        // estimate the phase 2pi * 5/32 of P on its eigenstate |1>, over 5 counting qubits
+        const qc = new QuantumCircuit(6).h([0, 1, 2, 3, 4]).x(5);
+
+        for (let j = 0; j < 5; j++)
+            qc.cp(j, 5, 2 * Math.PI * 5 / 32 * 2 ** j);
+
+        // inverse QFT on the counting qubits
+        qc.swap(0, 4).swap(1, 3);
+
+        for (let i = 0; i < 5; i++)
+        {
+            for (let j = 0; j < i; j++)
+                qc.cp(j, i, -Math.PI / 2 ** (i - j));
+
+            qc.h(i);
+        }
+
+        expect([...qc.statevector(15)]).toEqual([{ state: '100101', re: 1, im: 0 }]);
+
+        for (; Complex.has(registered); registered++)
+            expect(Complex.get(registered)!.isNumeric()).toBe(false);
+    });
+
+    test('The QFT on 12 qubits stays bit-exact', () =>
+    {
+        let registered = 0;
+
+        while (Complex.has(registered)) registered++;
+
+        // the controlled phases go down to pi/2^11
+        const qft = new QuantumCircuit(12);
+
+        for (let i = 11; i >= 0; i--)
+        {
+            qft.h(i);
+
+            for (let j = i - 1; j >= 0; j--)
+                qft.cp(j, i, Math.PI / 2 ** (i - j));
+        }
+
+        const qc = new QuantumCircuit(12).x([0, 11]).compose(qft);
+
+        expect(qc.amplitude(2 ** 12 - 1).exact.isNumeric()).toBe(false);
+        expect([...qc.compose(qft.inverse()).statevector()]).toEqual([{ state: '100000000001', re: 1, im: 0 }]);
+
+        for (; Complex.has(registered); registered++)
+            expect(Complex.get(registered)!.isNumeric()).toBe(false);
+    });
+
+    test('Long chains of T and H gates do not drift', () =>
+    {
+        const qc = new QuantumCircuit(2).h(1);
+
+        for (let k = 0; k < 150; k++)
+            qc.h(0).t(0).cx(0, 1);
+
+        expect([...qc.compose(qc.inverse()).statevector(15)]).toEqual([{ state: '00', re: 1, im: 0 }]);
+    });
+
+    test('Multi-controlled Z marks the activating state', () =>
+    {
+        const qc = new QuantumCircuit(3).h([0, 1, 2]).mcz([0, 1], 2);
+        const marked = [...qc.statevector()].filter(({ re }) => re < 0).map(({ state }) => state);
+
+        expect(marked).toEqual(['111']);
+        expect([...new QuantumCircuit(3).h([0, 1, 2]).mcz([0, 1], 2, '01').statevector()].filter(({ re }) => re < 0).map(({ state }) => state))
+        .toEqual(['110']);
+        // the same control semantics as ccz()
+        expect([...new QuantumCircuit(3).h([0, 1, 2]).mcz([1, 0], 2, '10').statevector()])
+        .toEqual([...new QuantumCircuit(3).h([0, 1, 2]).ccz(0, 1, 2, '10').statevector()]);
+    });
+
+    test('Multi-controlled phases, Hadamards and SWAPs', () =>
+    {
+        const a = Math.round(Math.SQRT1_2 * 1e4) / 1e4;
+
+        expect([...new QuantumCircuit(3).x([0, 1]).mch([0, 1], 2).statevector()])
+        .toEqual([{ state: '011', re: a, im: 0 }, { state: '111', re: a, im: 0 }]);
+        expect([...new QuantumCircuit(3).x([0, 1]).mch([0, 1], 2, '10').statevector()]).toEqual([{ state: '011', re: 1, im: 0 }]);
+        expect([...new QuantumCircuit(3).x([0, 1, 2]).mcp([0, 1], 2, Math.PI / 2).statevector()]).toEqual([{ state: '111', re: 0, im: 1 }]);
+        expect([...new QuantumCircuit(4).x([0, 3]).mcswap([0, 1], 2, 3, '10').statevector()]).toEqual([{ state: '0101', re: 1, im: 0 }]);
+        expect([...new QuantumCircuit(4).x([0, 3]).mcswap([0, 1], 2, 3).statevector()]).toEqual([{ state: '1001', re: 1, im: 0 }]);
+    });
+
+    test('The new gates are logged and exported', () =>
+    {
+        const qc = new QuantumCircuit(3).sx(0, true).csx(0, 1).mcz([0, 1], 2).mcswap([0], 1, 2, '0');
+
+        expect(qc.data.map(({ gate }) => gate)).toEqual([new SX(true), new SX(), new Z(), new SWAP()]);
+        expect(qc.data[3]).toEqual({ gate: new SWAP(), targets: [1, 2], controls: [0], ctrlState: '0' });
+        expect(qc.toQASM(3)).toBe([
+            'OPENQASM 3.0;',
+            'include "stdgates.inc";',
+            'qubit[3] q;',
+            'inv @ sx q[0];',
+            'ctrl @ sx q[0], q[1];',
+            'ctrl(2) @ z q[0], q[1], q[2];',
+            'negctrl @ swap q[0], q[1], q[2];',
+            ''
+        ].join('\n'));
+        expect(new QuantumCircuit(2).sx(0, true).csx(0, 1).toQASM()).toBe([
+            'OPENQASM 2.0;',
+            'include "qelib1.inc";',
+            'qreg q[2];',
+            'sxdg q[0];',
+            'csx q[0], q[1];',
+            ''
+        ].join('\n'));
+        expect(new QuantumCircuit(2).append(new SX(true), 1, [0]).toQASM().split('\n').slice(3, -1))
+        .toEqual(['h q[1];', 'cu1(-pi/2) q[0], q[1];', 'h q[1];']);
+
+        const roundtrip = new QuantumCircuit(2).h(1).sx(0, true).csx(1, 0).append(new SX(true), 1, [0], '0');
+
+        expect([...QuantumCircuit.fromQASM(roundtrip.toQASM()).statevector()]).toEqual([...roundtrip.statevector()]);
+    });
+});
+
+describe('QuantumCircuit.unitary(): ', () =>
+{
+    const a = Number(Math.SQRT1_2.toFixed(4));
+    const byPosition = (x: { row: string, col: string }, y: { row: string, col: string }) => 
+        x.col.localeCompare(y.col) || x.row.localeCompare(y.row);
+
+    test('Bell circuit', () =>
+    {
+        const entries = [...new QuantumCircuit(2).h(0).cx(0, 1).unitary()].sort(byPosition);
+
+        expect(entries).toEqual([
+            { row: '00', col: '00', re: a, im: 0 }, { row: '11', col: '00', re:  a, im: 0 },
+            { row: '00', col: '01', re: a, im: 0 }, { row: '11', col: '01', re: -a, im: 0 },
+            { row: '01', col: '10', re: a, im: 0 }, { row: '10', col: '10', re:  a, im: 0 },
+            { row: '01', col: '11', re: -a, im: 0 }, { row: '10', col: '11', re:  a, im: 0 }
+        ]);
+    });
+
+    test('Empty circuit is the identity', () =>
+    {
+        const entries = [...new QuantumCircuit(3).unitary()];
+
+        expect(entries).toHaveLength(8);
+        expect(entries.every(({ row, col, re, im }) => row === col && re === 1 && im === 0)).toBe(true);
+    });
+
+    test('A circuit followed by its inverse is the identity', () =>
+    {
+        const qc = new QuantumCircuit(3).h(0).t(1).ccx(0, 1, 2).cp(2, 0, Math.PI / 8).ry(1, 0.3).iswap(0, 2);
+        const entries = [...qc.compose(qc.inverse()).unitary(10)];
+
+        expect(entries).toHaveLength(8);
+        expect(entries.every(({ row, col, re, im }) => row === col && re === 1 && im === 0)).toBe(true);
+    });
+
+    test('The first column is the statevector', () =>
+    {
+        const qc = new QuantumCircuit(3).h([0, 1]).cs(0, 2).rx(2, 1.1).cswap(1, 0, 2).u(0, 0.4, 0.5, 0.6);
+        const column = [...qc.unitary(8)].filter(({ col }) => col === '000').map(({ row, re, im }) => ({ state: row, re: re, im: im }));
+        const byState = (x: { state: string }, y: { state: string }) => x.state.localeCompare(y.state);
+
+        expect(column.sort(byState)).toEqual([...qc.statevector(8)].sort(byState));
+    });
+
+    test('Initialization gates are part of the unitary', () =>
+    {
+        expect([...new QuantumCircuit(2).initialize('01').unitary()].sort(byPosition)).toEqual([
+            { row: '01', col: '00', re: 1, im: 0 }, { row: '00', col: '01', re: 1, im: 0 },
+            { row: '11', col: '10', re: 1, im: 0 }, { row: '10', col: '11', re: 1, im: 0 }
+        ]);
+    });
+
+    test('Non-unitary circuits are rejected', () =>
+    {
+        expect(() => new QuantumCircuit(1, 1).h(0).measure(0, 0).unitary())
+        .toThrow('Error in QuantumCircuit.unitary(): Cannot extract the unitary of a circuit with measurements or resets.');
+        expect(() => new QuantumCircuit(1).reset(0).unitary())
+        .toThrow('Error in QuantumCircuit.unitary(): Cannot extract the unitary of a circuit with measurements or resets.');
+        expect(() => new QuantumCircuit(1, 1).x(0, { clbits: [0], value: 1 }).unitary())
+        .toThrow('Error in QuantumCircuit.unitary(): Cannot extract the unitary of a circuit with classically conditioned operations.');
+        expect(() => new QuantumCircuit(1).rx(0, new Parameter('theta')).unitary())
+        .toThrow('Error in QuantumCircuit.unitary(): Cannot simulate a circuit with unbound parameters (theta), assign them first.');
+        expect(() => new QuantumCircuit(1).unitary(-1))
+        .toThrow('Error in QuantumCircuit.unitary(): Cannot round to -1 decimal places.');
+    });
+});
+
+describe('QuantumCircuit.equivalent(): ', () =>
+{
+    /**
+     * Checks that the two circuits indeed act differently on the given basis state.
+     */
+    const differ = (a: QuantumCircuit, b: QuantumCircuit, state: string) => 
+    {
+        const run = (qc: QuantumCircuit) => [...new QuantumCircuit(qc.width()).initialize(state).compose(qc).statevector(10)];
+
+        return JSON.stringify(run(a)) !== JSON.stringify(run(b));
+    };
+
+    test('Equivalent circuits', () =>
+    {
+        expect(QuantumCircuit.equivalent(new QuantumCircuit(2).swap(0, 1), new QuantumCircuit(2).cx(0, 1).cx(1, 0).cx(0, 1)))
+        .toEqual({ equivalent: true });
+        expect(QuantumCircuit.equivalent(new QuantumCircuit(1).h(0).z(0).h(0), new QuantumCircuit(1).x(0)))
+        .toEqual({ equivalent: true });
+        expect(QuantumCircuit.equivalent(new QuantumCircuit(3).h(2).ccz(0, 1, 2).h(2), new QuantumCircuit(3).ccx(0, 1, 2)))
+        .toEqual({ equivalent: true });
+        expect(QuantumCircuit.equivalent(new QuantumCircuit(2).rx(1, 0.3).rx(1, 0.4), new QuantumCircuit(2).rx(1, 0.7)))
+        .toEqual({ equivalent: true });
+    });
+
+    test('Non-equivalent circuits report a counterexample', () =>
+    {
+        for (const [a, b] of [
+            [new QuantumCircuit(1).x(0),        new QuantumCircuit(1).y(0)       ],
+            [new QuantumCircuit(2).cx(0, 1),    new QuantumCircuit(2).cx(1, 0)   ],
+            [new QuantumCircuit(3).ccx(0, 1, 2), new QuantumCircuit(3).ccx(0, 1, 2, '01')],
+            [new QuantumCircuit(3).h([0, 1, 2]).cp(0, 2, Math.PI / 8), new QuantumCircuit(3).h([0, 1, 2]).cp(0, 2, Math.PI / 16)]
+        ]) {
+            const { equivalent, counterexample } = QuantumCircuit.equivalent(a, b);
+
+            expect(equivalent).toBe(false);
+            expect(counterexample).toHaveLength(a.width());
+            expect(differ(a, b, counterexample!)).toBe(true);
+        }
+    });
+
+    test('Equivalence up to a global phase', () =>
+    {
+        const p = new QuantumCircuit(1).p(0, Math.PI / 4);
+        const rz = new QuantumCircuit(1).rz(0, Math.PI / 4);
+
+        expect(QuantumCircuit.equivalent(p, rz)).toEqual({ equivalent: false, counterexample: '0' });
+        expect(QuantumCircuit.equivalent(p, rz, { upToGlobalPhase: true })).toEqual({ equivalent: true });
+        expect(QuantumCircuit.equivalent(new QuantumCircuit(2).z(1), new QuantumCircuit(2).y(1).x(1), { upToGlobalPhase: true }))
+        .toEqual({ equivalent: true });
+        // a relative phase is not global
+        expect(QuantumCircuit.equivalent(new QuantumCircuit(1).s(0), new QuantumCircuit(1).z(0), { upToGlobalPhase: true }))
+        .toEqual({ equivalent: false, counterexample: '1' });
+        expect(QuantumCircuit.equivalent(new QuantumCircuit(2).x(0), new QuantumCircuit(2).x(1), { upToGlobalPhase: true }))
+        .toEqual({ equivalent: false, counterexample: '00' });
+    });
+
+    test('Ancillas restrict the compared inputs', () =>
+    {
+        // an ancilla in |0> never triggers the extra CNOT
+        const a = new QuantumCircuit(3).ccx(0, 1, 2);
+        const b = new QuantumCircuit(3).cx(2, 0).ccx(0, 1, 2);
+
+        expect(QuantumCircuit.equivalent(a, b).equivalent).toBe(false);
+        expect(QuantumCircuit.equivalent(a, b, { ancillas: [2] })).toEqual({ equivalent: true });
+        expect(QuantumCircuit.equivalent(a, b, { ancillas: [1] }).equivalent).toBe(false);
+    });
+
+    test('Garbage outputs are ignored', () =>
+    {
+        // computing AND through a scratch qubit 3, uncomputed and then scrambled
+        const a = new QuantumCircuit(4).ccx(0, 1, 2);
+        const b = new QuantumCircuit(4).ccx(0, 1, 3).cx(3, 2).ccx(0, 1, 3).h(3).t(3);
+
+        expect(QuantumCircuit.equivalent(a, b).equivalent).toBe(false);
+        expect(QuantumCircuit.equivalent(a, b, { ancillas: [3] }).equivalent).toBe(false);
+        expect(QuantumCircuit.equivalent(a, b, { ancillas: [3], garbage: [3] })).toEqual({ equivalent: true });
+        expect(QuantumCircuit.equivalent(a, b, { ancillas: [2, 3], garbage: [3] })).toEqual({ equivalent: true });
+        // fed with anything but |0>, the scratch qubit flips the result
+        expect(QuantumCircuit.equivalent(a, b, { garbage: [3] }).equivalent).toBe(false);
+        expect(QuantumCircuit.equivalent(a, b, { ancillas: [3], garbage: [2] }).equivalent).toBe(false);
+    });
+
+    test('Partial counterexamples feed the ancillas with |0>', () =>
+    {
+        const { equivalent, counterexample } = QuantumCircuit.equivalent(
+            new QuantumCircuit(3).cx(0, 1), new QuantumCircuit(3).cx(0, 2), { ancillas: [2], garbage: [2] });
+
+        expect(equivalent).toBe(false);
+        expect(counterexample).toMatch(/^0.1$/);  // the ancilla is |0> and the difference needs qubit 0 set
+    });
+
+    test('Partial equivalence up to a global phase', () =>
+    {
+        // the CNOT is never triggered by the ancilla
+        const a = new QuantumCircuit(2).cx(1, 0).rz(0, Math.PI / 2);
+        const b = new QuantumCircuit(2).p(0, Math.PI / 2);
+
+        expect(QuantumCircuit.equivalent(a, b, { ancillas: [1] }).equivalent).toBe(false);
+        expect(QuantumCircuit.equivalent(a, b, { ancillas: [1], upToGlobalPhase: true })).toEqual({ equivalent: true });
+    });
+
+    test('Phases of garbage outputs do not interfere', () =>
+    {
+        const identity = new QuantumCircuit(2);
+
+        expect(QuantumCircuit.equivalent(new QuantumCircuit(2).z(1), identity, { garbage: [1] })).toEqual({ equivalent: true });
+        expect(QuantumCircuit.equivalent(new QuantumCircuit(2).h(1).s(1).cx(1, 0), new QuantumCircuit(2).h(1).cx(1, 0), { garbage: [1] }))
+        .toEqual({ equivalent: true });
+        // H on the garbage qubit sends |0> to |+> and |1> to |->, whose amplitudes would cancel when added
+        expect(QuantumCircuit.equivalent(new QuantumCircuit(2).h(1), identity, { garbage: [1] })).toEqual({ equivalent: true });
+        // but entangling it with a kept qubit changes the outcomes of the latter
+        expect(QuantumCircuit.equivalent(new QuantumCircuit(2).h(1).cx(1, 0), identity, { garbage: [1] }))
+        .toEqual({ equivalent: false, counterexample: '00' });
+    });
+
+    test('Phases of kept outputs are compared', () =>
+    {
+        for (const [a, b] of [
+            [new QuantumCircuit(2),      new QuantumCircuit(2).z(0)       ],
+            [new QuantumCircuit(2).h(0), new QuantumCircuit(2).h(0).z(0)  ],
+            // a copy on the garbage qubit decoheres the kept one
+            [new QuantumCircuit(2).h(0), new QuantumCircuit(2).h(0).cx(0, 1)]
+        ]) {
+            const { equivalent, counterexample } = QuantumCircuit.equivalent(a, b, { garbage: [1] });
+
+            expect(equivalent).toBe(false);
+            expect(counterexample).toHaveLength(2);
+        }
+
+        // a global phase is not observable on the reduced states
+        expect(QuantumCircuit.equivalent(new QuantumCircuit(2).z(0).x(0).z(0).x(0), new QuantumCircuit(2), { garbage: [1] }))
+        .toEqual({ equivalent: true });
+    });
+
+    test('Invalid comparisons', () =>
+    {
+        expect(() => QuantumCircuit.equivalent(new QuantumCircuit(2), new QuantumCircuit(2), { ancillas: [2] }))
+        .toThrow('Error in QuantumCircuit.equivalent(): Out of bounds qubit requested (received index 2, expected [0, 2)).');
+        expect(() => QuantumCircuit.equivalent(new QuantumCircuit(2), new QuantumCircuit(2), { garbage: [1, 1] }))
+        .toThrow('Error in QuantumCircuit.equivalent(): Duplicate qubit index detected.');
+        expect(() => QuantumCircuit.equivalent(new QuantumCircuit(1), new QuantumCircuit(2)))
+        .toThrow('Error in QuantumCircuit.equivalent(): Cannot compare circuits of different widths (1 and 2).');
+        expect(() => QuantumCircuit.equivalent(new QuantumCircuit(1, 1).measure(0, 0), new QuantumCircuit(1)))
+        .toThrow('Error in QuantumCircuit.equivalent(): Cannot extract the unitary of a circuit with measurements or resets.');
+        expect(() => QuantumCircuit.equivalent(new QuantumCircuit(1), new QuantumCircuit(1).ry(0, new Parameter('phi'))))
+        .toThrow('Error in QuantumCircuit.equivalent(): Cannot simulate a circuit with unbound parameters (phi), assign them first.');
+    });
+});
+
+describe('QuantumCircuit.innerProduct() and QuantumCircuit.fidelity(): ', () =>
+{
+    test('Overlaps of single-qubit states', () =>
+    {
+        const zero = new QuantumCircuit(1);
+        const plus = new QuantumCircuit(1).h(0);
+        const right = new QuantumCircuit(1).initialize('r');
+
+        expect(zero.innerProduct(plus).re).toBeCloseTo(Math.SQRT1_2, 12);
+        expect(zero.fidelity(plus)).toBeCloseTo(0.5, 12);
+        expect(plus.innerProduct(right)).toEqual({ re: 0.5, im: 0.5 });
+        expect(right.innerProduct(plus)).toEqual({ re: 0.5, im: -0.5 });
+        expect(plus.fidelity(right)).toBe(0.5);
+    });
+
+    test('Identical and orthogonal states', () =>
+    {
+        const bell = new QuantumCircuit(2).h(0).cx(0, 1);
+        const other = new QuantumCircuit(2).x(0).h(0).cx(0, 1);
+
+        expect(bell.innerProduct(bell)).toEqual({ re: 1, im: 0 });
+        expect(bell.fidelity(new QuantumCircuit(2).h(1).cx(1, 0))).toBe(1);
+        expect(bell.innerProduct(other)).toEqual({ re: 0, im: 0 });
+        expect(bell.fidelity(other)).toBe(0);
+    });
+
+    test('Agrees with the statevectors', () =>
+    {
+        const a = new QuantumCircuit(3).h([0, 1, 2]).cp(0, 1, 0.7).ry(2, 1.3).ccx(0, 1, 2).t(0);
+        const b = new QuantumCircuit(3).rx(0, 0.2).h(1).cx(1, 2).u(2, 0.3, -0.8, 1.9).cs(2, 0);
+        const amplitudes = (qc: QuantumCircuit) => new Map([...qc.statevector(15)].map(({ state, re, im }) => [state, [re, im]]));
+        const [sa, sb] = [amplitudes(a), amplitudes(b)];
+        let [re, im] = [0, 0];
+
+        for (const [state, [ar, ai]] of sa)
+        {
+            const [br, bi] = sb.get(state) ?? [0, 0];
+            // conj(a) * b
+            re += ar * br + ai * bi;
+            im += ar * bi - ai * br;
+        }
+
+        expect(a.innerProduct(b).re).toBeCloseTo(re, 10);
+        expect(a.innerProduct(b).im).toBeCloseTo(im, 10);
+        expect(a.fidelity(b)).toBeCloseTo(re ** 2 + im ** 2, 10);
+    });
+
+    test('Collapsed states after measurement', () =>
+    {
+        const qc = new QuantumCircuit(2, 2, 'seed').h(0).cx(0, 1).measure([0, 1], [0, 1]);
+        const expected = new QuantumCircuit(2).initialize(qc.register());
+
+        expect(qc.fidelity(expected)).toBe(1);
+    });
+
+    test('Invalid overlaps', () =>
+    {
+        expect(() => new QuantumCircuit(1).innerProduct(new QuantumCircuit(2)))
+        .toThrow('Error in QuantumCircuit.innerProduct(): Cannot compare circuits of different widths (1 and 2).');
+        expect(() => new QuantumCircuit(2).fidelity(new QuantumCircuit(1)))
+        .toThrow('Error in QuantumCircuit.fidelity(): Cannot compare circuits of different widths (2 and 1).');
+        expect(() => new QuantumCircuit(1).fidelity(new QuantumCircuit(1).rx(0, new Parameter('theta'))))
+        .toThrow('Error in QuantumCircuit.fidelity(): Cannot simulate a circuit with unbound parameters (theta), assign them first.');
+    });
+});
+
+describe('QuantumCircuit.amplitude(): ', () =>
+{
+    test('Amplitudes of basis states by bitstring and by index', () =>
+    {
+        const qc = new QuantumCircuit(3).h(0).cx(0, 2).s(2);
+
+        expect(qc.amplitude('000')).toMatchObject({ re: 0.7071, im: 0 });
+        expect(qc.amplitude('101')).toMatchObject({ re: 0, im: 0.7071 });
+        expect(qc.amplitude(5)).toEqual(qc.amplitude('101'));
+        expect(qc.amplitude('001')).toMatchObject({ re: 0, im: 0 });
+        expect(qc.amplitude(4, 2)).toMatchObject({ re: 0, im: 0 });
+    });
+
+    test('Exact amplitudes', () =>
+    {
+        const qc = new QuantumCircuit(2).h([0, 1]).t(0);
+
+        expect(qc.amplitude('00').exact.index).toBe(new Complex(1, 0, 0, 0, 2).index);
+        expect(qc.amplitude('01').exact.index).toBe(Complex.mul(new Complex(1, 0, 0, 0, 2).index, Complex.root(1, 8)));
+        expect(qc.amplitude('10').exact.index).toBe(new Complex(1, 0, 0, 0, 2).index);
+        expect(qc.amplitude('11').exact).toBe(qc.amplitude('01').exact);
+    });
+
+    test('Agrees with the statevector', () =>
+    {
+        const qc = new QuantumCircuit(4).h([0, 1, 2, 3]).cp(0, 3, 0.3).ry(1, 1.1).ccx(0, 1, 2).u(3, 0.4, 1.2, -0.5).cs(2, 1);
+        const states = new Map([...qc.statevector(8)].map(({ state, re, im }) => [state, { re: re, im: im }]));
+
+        for (let i = 0; i < 16; i++)
+        {
+            const state = i.toString(2).padStart(4, '0');
+            expect(qc.amplitude(i, 8)).toMatchObject(states.get(state) ?? { re: 0, im: 0 });
+        }
+    });
+
+    test('Amplitudes of wide states', () =>
+    {
+        const qc = new QuantumCircuit(64).h(0);
+
+        for (let i = 1; i < 64; i++)
+            qc.cx(0, i);
+
+        expect(qc.amplitude('1'.repeat(64)).exact.index).toBe(Complex.A);
+        expect(qc.amplitude('0'.repeat(63) + '1').exact.index).toBe(Complex.ZERO);
+    });
+
+    test('Invalid amplitudes', () =>
+    {
+        const qc = new QuantumCircuit(2);
+
+        expect(() => qc.amplitude('010'))
+        .toThrow(`Error in QuantumCircuit.amplitude(): Expected a basis state of 2 bits, but '010' was given.`);
+        expect(() => qc.amplitude('0+'))
+        .toThrow(`Error in QuantumCircuit.amplitude(): Expected a basis state of 2 bits, but '0+' was given.`);
+        expect(() => qc.amplitude(4))
+        .toThrow(`Error in QuantumCircuit.amplitude(): Basis state index 4 is out of range for 2 qubits.`);
+        expect(() => qc.amplitude(1.5))
+        .toThrow(`Error in QuantumCircuit.amplitude(): Basis state index 1.5 is out of range for 2 qubits.`);
+        expect(() => qc.amplitude('00', -1))
+        .toThrow(`Error in QuantumCircuit.amplitude(): Cannot round to -1 decimal places.`);
+        expect(() => new QuantumCircuit(1).rx(0, new Parameter('theta')).amplitude('0'))
+        .toThrow('Error in QuantumCircuit.amplitude(): Cannot simulate a circuit with unbound parameters (theta), assign them first.');
+    });
+});
+
+describe('QuantumCircuit.probabilities(): ', () =>
+{
+    const expectDistribution = (actual: Map<string, number>, expected: Record<string, number>) =>
+    {
+        expect([...actual.keys()].sort()).toEqual(Object.keys(expected).sort());
+
+        for (const [outcome, prob] of Object.entries(expected))
+            expect(actual.get(outcome)).toBeCloseTo(prob, 12);
+    };
+
+    test('Full distribution matches the statevector', () =>
+    {
+        const qc = new QuantumCircuit(3).h([0, 1, 2]).cp(0, 2, 0.9).ry(1, 0.4).ccx(0, 1, 2).h(2);
+        const probabilities = qc.probabilities();
+
+        for (const { state, re, im } of qc.statevector(12))
+            expect(probabilities.get(state)).toBeCloseTo(re ** 2 + im ** 2, 10);
+
+        expect([...probabilities.values()].reduce((a, b) => a + b)).toBeCloseTo(1, 12);
+    });
+
+    test('Marginals of entangled states', () =>
+    {
+        const qc = new QuantumCircuit(3).h(0).cx(0, 2).x(1);
+
+        expectDistribution(qc.probabilities(1), { '1': 1 });
+        expectDistribution(qc.probabilities([0, 2]), { '00': 0.5, '11': 0.5 });
+        expectDistribution(qc.probabilities([2, 1]), { '10': 0.5, '11': 0.5 });
+        expectDistribution(qc.probabilities([1, 2]), { '01': 0.5, '11': 0.5 });
+    });
+
+    test('Marginals of uneven distributions', () =>
+    {
+        const qc = new QuantumCircuit(3).ry(0, 2 * Math.PI / 3).cx(0, 1).h(2);
+        const marginal = qc.probabilities([0]);
+
+        expect(marginal.get('0')).toBeCloseTo(0.25, 12);
+        expect(marginal.get('1')).toBeCloseTo(0.75, 12);
+        expect(qc.probabilities([1, 0]).has('01')).toBe(false);
+    });
+
+    test('Marginals of a few qubits out of many', () =>
+    {
+        const qc = new QuantumCircuit(60).h(0);
+
+        for (let i = 1; i < 60; i++)
+            qc.cx(i - 1, i);
+
+        expectDistribution(qc.probabilities([0, 59]), { '00': 0.5, '11': 0.5 });
+    });
+
+    test('Marginals after measurement', () =>
+    {
+        const qc = new QuantumCircuit(2, 1, 'seed').h(0).cx(0, 1).measure(0, 0);
+        const outcome = qc.register();
+
+        expectDistribution(qc.probabilities(1), { [outcome]: 1 });
+    });
+
+    test('Invalid marginals', () =>
+    {
+        const qc = new QuantumCircuit(2);
+
+        expect(() => qc.probabilities([0, 2]))
+        .toThrow('Error in QuantumCircuit.probabilities(): Out of bounds qubit requested (received index 2, expected [0, 2)).');
+        expect(() => qc.probabilities([1, 1]))
+        .toThrow('Error in QuantumCircuit.probabilities(): Duplicate qubit index detected.');
+        expect(() => new QuantumCircuit(1).rx(0, new Parameter('theta')).probabilities())
+        .toThrow('Error in QuantumCircuit.probabilities(): Cannot simulate a circuit with unbound parameters (theta), assign them first.');
+    });
+});
+
+describe('QuantumCircuit.expectation(): ', () =>
+{
+    test('Single-qubit Pauli expectations', () =>
+    {
+        expect(new QuantumCircuit(1).expectation('Z').exact.index).toBe(Complex.ONE);
+        expect(new QuantumCircuit(1).x(0).expectation('Z').exact.index).toBe(Complex.NEG_ONE);
+        expect(new QuantumCircuit(1).h(0).expectation('X').exact.index).toBe(Complex.ONE);
+        expect(new QuantumCircuit(1).h(0).expectation('Z').exact.index).toBe(Complex.ZERO);
+        expect(new QuantumCircuit(1).initialize('l').expectation('Y').exact.index).toBe(Complex.NEG_ONE);
+        expect(new QuantumCircuit(1).h(0).t(0).expectation('X').exact.index).toBe(Complex.A);
+    });
+
+    test('Multi-qubit Pauli strings', () =>
+    {
+        const bell = new QuantumCircuit(2).h(0).cx(0, 1);
+
+        expect(bell.expectation('ZZ').value).toBe(1);
+        expect(bell.expectation('XX').value).toBe(1);
+        expect(bell.expectation('YY').value).toBe(-1);
+        expect(bell.expectation('ZI').value).toBe(0);
+        expect(bell.expectation('II').value).toBe(1);
+        // qubit 0 is the last character
+        expect(new QuantumCircuit(3).x(0).expectation('IIZ').value).toBe(-1);
+        expect(new QuantumCircuit(3).x(0).expectation('ZII').value).toBe(1);
+    });
+
+    test('Agrees with the statevector', () =>
+    {
+        const qc = new QuantumCircuit(3).ry(0, 0.8).rx(1, -1.3).cx(0, 2).u(2, 0.5, 0.2, 1.1).cp(1, 2, 0.6);
+        const amplitudes = new Map([...qc.statevector(15)].map(({ state, re, im }) => [parseInt(state, 2), [re, im]]));
+        // ⟨ψ|Z_0 X_2|ψ⟩, where X_2 flips bit 2 and Z_0 negates odd indices
+        let value = 0;
+
+        for (const [i, [re, im]] of amplitudes)
+        {
+            const [fr, fi] = amplitudes.get(i ^ 4) ?? [0, 0];
+            value += (i % 2 === 0 ? 1 : -1) * (re * fr + im * fi);
+        }
+
+        expect(qc.expectation('XIZ').value).toBeCloseTo(value, 10);
+    });
+
+    test('Invalid Pauli strings', () =>
+    {
+        expect(() => new QuantumCircuit(2).expectation('Z'))
+        .toThrow(`Error in QuantumCircuit.expectation(): Pauli string 'Z' does not match the declared amount of 2 qubits.`);
+        expect(() => new QuantumCircuit(2).expectation('zA'))
+        .toThrow(`Error in QuantumCircuit.expectation(): Unrecognized character found in Pauli string, 'I', 'X', 'Y' or 'Z' were expected.`);
+        expect(() => new QuantumCircuit(1).rx(0, new Parameter('theta')).expectation('Z'))
+        .toThrow('Error in QuantumCircuit.expectation(): Cannot simulate a circuit with unbound parameters (theta), assign them first.');
+    });
+});
+
+describe('QuantumCircuit.expectation() of observables: ', () =>
+{
+    test('Weighted sums of Pauli strings', () =>
+    {
+        const bell = new QuantumCircuit(2).h(0).cx(0, 1);
+
+        expect(bell.expectation(Observable.parse('0.5*XX - 1.2*ZI + IZ')).value).toBeCloseTo(0.5, 12);
+        expect(bell.expectation(Observable.parse('XX + YY + ZZ')).value).toBe(1);
+        expect(bell.expectation(new Observable([['XX', 1], ['XX', -1]])).value).toBe(0);
+    });
+
+    test('Exact values with decimal coefficients', () =>
+    {
+        const qc = new QuantumCircuit(2).h(0).t(0).cx(0, 1);
+        // <XX> = 1/sqrt(2), <ZZ> = 1
+        const { exact } = qc.expectation(Observable.parse('0.1*XX + 0.3*ZZ'));
+
+        expect(exact.index).toBe(new Complex(3, 1, 0, 0, 10).index);
+        expect(exact.re()).toBeCloseTo(0.1 * Math.SQRT1_2 + 0.3, 12);
+    });
+
+    test('Agrees with the sum of the terms', () =>
+    {
+        const qc = new QuantumCircuit(3).ry([0, 1, 2], 0.7).cx(0, 1).cx(1, 2).rz(2, 0.3).rx(0, -1.1);
+        const hamiltonian = Observable.parse('-1.05*ZZI + 0.39*IZZ - 0.011*XXX + 0.18*YIY - 0.5*IIX');
+        let sum = 0;
+
+        for (const { coefficient, pauli } of hamiltonian.terms)
+            sum += coefficient * qc.expectation(pauli).value;
+
+        expect(qc.expectation(hamiltonian).value).toBeCloseTo(sum, 12);
+    });
+
+    test('Variational loop', () =>
+    {
+        const hamiltonian = Observable.parse('ZZ + 0.5*XI + 0.5*IX');
+        const energy = (theta: number) => new QuantumCircuit(2).ry([0, 1], theta).cx(0, 1).expectation(hamiltonian).value;
+        let [theta, best] = [0, energy(0)];
+
+        for (let i = 1; i <= 64; i++)
+            if (energy(i * Math.PI / 32) < best)
+                [theta, best] = [i * Math.PI / 32, energy(i * Math.PI / 32)];
+
+        expect(best).toBeLessThan(energy(0));
+        expect(best).toBeCloseTo(energy(theta), 12);
+    });
+
+    test('Invalid observables', () =>
+    {
+        expect(() => new QuantumCircuit(2).expectation(Observable.parse('XIZ')))
+        .toThrow('Error in QuantumCircuit.expectation(): Observable spans 3 qubits but the circuit has 2.');
+        expect(() => new QuantumCircuit(1).rx(0, new Parameter('theta')).expectation(Observable.parse('X + Z')))
+        .toThrow('Error in QuantumCircuit.expectation(): Cannot simulate a circuit with unbound parameters (theta), assign them first.');
+    });
+});
@@ -28,6 +28,28 @@ describe('Complex: ', () =>
         expect(new Complex(1, -2, 3, -4, -5).toString()).toBe('-1;2;-3;4;5');
     });
 
+    test('Initialization with floating point values', () =>
+    {
+        const complex = new Complex(0.3, 0, -0.4, 0);
+
+        expect(complex.isNumeric()).toBe(true);
+        expect(complex.re()).toBeCloseTo(0.3, 12);
+        expect(complex.im()).toBeCloseTo(-0.4, 12);
+        expect(new Complex(0.3 + 1e-13, 0, -0.4, 0).index).toBe(complex.index);
+    });
+
+    test('Floating point values resolve to exact values within tolerance', () =>
+    {
+        expect(new Complex(0.5, 0, 0, 0, 0.5).index).toBe(Complex.ONE);
+        expect(new Complex(Math.SQRT1_2 + 1e-12, 0, 0, 0).index).toBe(Complex.A);
+    });
+
+    test('Initialization with non-finite values', () =>
+    {
+        expect(() => { new Complex(Infinity, 0, 0, 0); })
+        .toThrow('Error in Complex(): Non-finite value passed.');
+    });
+
     test('Creating existing non-default value', () =>
     {
         expect(new Complex(1, 2, 3, 4).index).toBe(new Complex(2, 4, 6, 8, 2).index);
@@ -159,6 +181,16 @@ describe('Complex: ', () =>
         expect(quot.im()).toBeCloseTo(0.276142375, 8);
     });
 
+    test('Dividing two complex numbers with irrational imaginary parts', () =>
+    {
+        const c0 = new Complex(-2, -2, 0, -3);
+        const c1 = new Complex(0, 2, -3, 3);
+        const quot = Complex.get(Complex.div(c0.index, c1.index))!;
+
+        expect(quot.re()).toBeCloseTo(-1.06940215, 7);
+        expect(quot.im()).toBeCloseTo(-2.16444131, 7);
+    });
+
     test('Mixing operations #1', () =>
     {
         const c0 = new Complex(1, 0, 2, 0);
@@ -216,6 +248,160 @@ describe('Complex: ', () =>
 
         expect(Complex.argmax([Complex.NEG_ONE, expected, other])).toBe(expected);
     });
+
+    test('Conjugating complex numbers', () =>
+    {
+        expect(Complex.get(Complex.B)!.conj().index).toBe(Complex.C);
+        expect(Complex.get(Complex.NEG_I)!.conj().index).toBe(Complex.I);
+        expect(Complex.get(Complex.A)!.conj().index).toBe(Complex.A);
+        expect(new Complex(0.1, 0, 0.2, 0).conj().index).toBe(new Complex(0.1, 0, -0.2, 0).index);
+    });
+});
+
+describe('Complex: Overflow safety', () =>
+{
+    test('Initialization with bigints', () =>
+    {
+        expect(new Complex(2n, 4n, 6, 8n, 10).toString()).toBe('1;2;3;4;5');
+        expect(new Complex(2n ** 60n, 0, 0, 0, 2n ** 61n).index).toBe(new Complex(1, 0, 0, 0, 2).index);
+        expect(new Complex([0n, 2n ** 70n, 0, 0, 0, 0, 0, 0], 2n ** 70n).index).toBe(Complex.root(1, 16));
+    });
+
+    test('Initialization with unsafe integers', () =>
+    {
+        expect(() => { new Complex(2 ** 53, 0, 0, 0); })
+        .toThrow('Error in Complex(): Unsafe integer passed, use a bigint instead.');
+        expect(() => { new Complex([1, 2 ** 60], 3); })
+        .toThrow('Error in Complex(): Unsafe integer passed, use a bigint instead.');
+        expect(() => { new Complex(1, 0, 0, 0, -(2 ** 53)); })
+        .toThrow('Error in Complex(): Unsafe integer passed, use a bigint instead.');
+    });
+
+    test('Huge scalars convert to floating point', () =>
+    {
+        const complex = new Complex(3n * 10n ** 400n, 0, -(10n ** 400n), 10n ** 400n, 4n * 10n ** 400n);
+
+        expect(complex.isNumeric()).toBe(false);
+        expect(complex.re()).toBeCloseTo(0.75, 12);
+        expect(complex.im()).toBeCloseTo((Math.SQRT1_2 - 1) / 4, 12);
+    });
+
+    test('Long chains of products stay exact', () =>
+    {
+        // every multiplication with (1 + B)/2 doubles the denominator, past 2^53 within 60 steps
+        const factor = new Complex(1, 1, 0, 1, 2).index;
+        let prod = Complex.ONE;
+
+        for (let k = 0; k < 200; k++)
+            prod = Complex.mul(prod, factor);
+
+        expect(Complex.get(prod)!.isNumeric()).toBe(false);
+        expect(Complex.get(prod)!.mag2()).toBeCloseTo(Complex.get(factor)!.mag2() ** 200, 12);
+
+        for (let k = 0; k < 200; k++)
+            prod = Complex.div(prod, factor);
+
+        expect(prod).toBe(Complex.ONE);
+    });
+});
+
+describe('Complex: Cyclotomic numbers', () =>
+{
+    const zeta16 = Complex.root(1, 16);
+
+    test('Roots of unity reduce to the smallest field', () =>
+    {
+        expect(Complex.root(0, 1024)).toBe(Complex.ONE);
+        expect(Complex.root(512, 1024)).toBe(Complex.NEG_ONE);
+        expect(Complex.root(-256, 1024)).toBe(Complex.NEG_I);
+        expect(Complex.root(128, 1024)).toBe(Complex.B);
+        expect(Complex.root(64, 1024)).toBe(zeta16);
+        expect(Complex.get(zeta16)!.toString()).toBe('0;1;0;0;0;0;0;0;1');
+        expect(new Complex([0, 0, 2, 0, 0, 0, -2, 0], 4).index).toBe(Complex.A);
+    });
+
+    test('Invalid roots and coefficients', () =>
+    {
+        expect(() => Complex.root(1, 12)).toThrow('Error in Complex.root(): The order must be a power of 2.');
+        expect(() => Complex.root(0.5, 16)).toThrow('Error in Complex.root(): The power must be an integer.');
+        expect(() => new Complex([1, 2, 3])).toThrow('Error in Complex(): The number of coefficients must be a power of 2.');
+        expect(() => new Complex([1, 2], 0)).toThrow('Error in Complex(): Division by zero.');
+    });
+
+    test('Actual values', () =>
+    {
+        const x = Complex.get(Complex.root(3, 32))!;
+
+        expect(x.re()).toBeCloseTo(Math.cos(3 * Math.PI / 16), 15);
+        expect(x.im()).toBeCloseTo(Math.sin(3 * Math.PI / 16), 15);
+        expect(x.mag2()).toBeCloseTo(1, 15);
+        expect(x.isNumeric()).toBe(false);
+    });
+
+    test('Arithmetic stays exact', () =>
+    {
+        // ζ_16^16 = 1
+        let power = Complex.ONE;
+
+        for (let k = 0; k < 16; k++)
+        {
+            expect(power).toBe(Complex.root(k, 16));
+            power = Complex.mul(power, zeta16);
+        }
+        expect(power).toBe(Complex.ONE);
+
+        // the primitive 16th roots sum to zero
+        expect([1, 3, 5, 7, 9, 11, 13, 15].map(k => Complex.root(k, 16)).reduce(Complex.add)).toBe(Complex.ZERO);
+
+        expect(Complex.mul(Complex.root(3, 64), Complex.root(5, 64))).toBe(Complex.B);
+        expect(Complex.div(Complex.root(1, 64), Complex.root(9, 64))).toBe(Complex.C);
+        expect(Complex.get(zeta16)!.conj().index).toBe(Complex.root(-1, 16));
+    });
+
+    test('Division by non-units', () =>
+    {
+        const x = Complex.add(Complex.ONE, zeta16);
+        const y = Complex.add(Complex.A, Complex.mul(Complex.root(5, 32), new Complex(3, 0, 0, 0).index));
+        const q = Complex.div(x, y);
+
+        expect(Complex.get(q)!.isNumeric()).toBe(false);
+        expect(Complex.mul(q, y)).toBe(x);
+        expect(Complex.div(Complex.ONE, Complex.div(Complex.ONE, x))).toBe(x);
+    });
+
+    test('Mixing with floating point values', () =>
+    {
+        const f = new Complex(0.1, 0, 0.2, 0).index;
+        const z = Complex.get(zeta16)!;
+        const sum = Complex.get(Complex.add(f, zeta16))!;
+        const prod = Complex.get(Complex.mul(f, zeta16))!;
+
+        expect(sum.isNumeric()).toBe(true);
+        expect(sum.re()).toBeCloseTo(0.1 + z.re(), 12);
+        expect(prod.im()).toBeCloseTo(0.1 * z.im() + 0.2 * z.re(), 12);
+        expect(Complex.get(Complex.div(prod.index, zeta16))!.index).toBe(f);
+    });
+});
+
+describe('Complex: Square roots', () =>
+{
+    test('Exact roots of rationals', () =>
+    {
+        expect(new Complex(1, 0, 0, 0, 4).sqrt().index).toBe(new Complex(1, 0, 0, 0, 2).index);
+        expect(new Complex(1, 0, 0, 0, 2).sqrt().index).toBe(Complex.A);
+        expect(new Complex(1, 0, 0, 0, 8).sqrt().index).toBe(new Complex(0, 1, 0, 0, 2).index);
+        expect(new Complex(2, 0, 0, 0).sqrt().index).toBe(new Complex(0, 2, 0, 0).index);
+        expect(new Complex(9n * 2n ** 200n, 0n, 0n, 0n, 2n ** 301n).sqrt().index).toBe(new Complex(0n, 3n, 0n, 0n, 2n ** 50n).index);
+        expect(Complex.get(Complex.ZERO)!.sqrt().index).toBe(Complex.ZERO);
+    });
+
+    test('Floating point roots otherwise', () =>
+    {
+        expect(new Complex(3, 0, 0, 0).sqrt().isNumeric()).toBe(true);
+        expect(new Complex(3, 0, 0, 0).sqrt().re()).toBeCloseTo(Math.sqrt(3), 12);
+        expect(Complex.get(Complex.NEG_ONE)!.sqrt().index).toBe(Complex.I);
+        expect(Complex.get(Complex.I)!.sqrt().index).toBe(Complex.B);
+    });
 });
 
 describe('Complex: Creating default value', () =>
@@ -269,6 +455,27 @@ describe('Complex: Cache check:', () =>
     {
         expect(Complex.div(c0.index, c1.index)).toBe(Complex.div(c0.index, c1.index));
     });
+
+    test('Floating point numbers do not shadow the exact ones of the same serialization', () =>
+    {
+        const float = new Complex(493827160.5, 0, 0, 0, 0.5);
+        const exact = new Complex(987654321, 0, 0, 0);
+
+        expect(float.isNumeric()).toBe(true);
+        expect(float.toString()).toBe(exact.toString());
+        expect(exact.isNumeric()).toBe(false);
+        expect(exact.index).not.toBe(float.index);
+        // floating point lookups now prefer the exact number
+        expect(new Complex(987654321 + 1e-11, 0, 0, 0).index).toBe(exact.index);
+    });
+
+    test('Floating point lookups see every number of a neighborhood', () =>
+    {
+        // shares the neighborhood of zero, but lies farther than the tolerance from the float below
+        const tiny = new Complex(1, 0, 0, 0, 25000000000);
+
+        expect(new Complex(1.3e-10, 0, 0, 0).index).toBe(tiny.index);
+    });
 });
 
 describe('Complex: Adding the inverse of', () =>
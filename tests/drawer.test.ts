@@ -0,0 +1,127 @@
+import { QuantumCircuit } from "../src/circuit";
+import { H, X, Z } from "../src/gates";
+
+describe('drawCircuit: ', () =>
+{
+    test('Empty circuit', () =>
+    {
+        expect(new QuantumCircuit(2).draw()).toBe([
+            'q0: ─',
+            '',
+            'q1: ─'
+        ].join('\n'));
+    });
+
+    test('Single qubit gates are boxed', () =>
+    {
+        const qc = 
+            new QuantumCircuit(2)
+            .h(0)
+            .s(1, true)
+            .t(0);
+
+        expect(qc.draw()).toBe([
+            'q0: ─┤H├──┤T├─',
+            '',
+            'q1: ─┤S†├─────'
+        ].join('\n'));
+    });
+
+    test('Controls, crossed wires and swaps', () =>
+    {
+        const qc = 
+            new QuantumCircuit(3)
+            .cx(0, 2, '0')
+            .append(new H(), 0, [1])
+            .cswap(2, 0, 1);
+
+        expect(qc.draw()).toBe([
+            'q0: ─○─┤H├─×─',
+            '     │  │  │',
+            'q1: ─┼──●──×─',
+            '     │     │',
+            'q2: ─⊕─────●─'
+        ].join('\n'));
+    });
+
+    test('Overlapping operations of the same column are drawn next to each other', () =>
+    {
+        const qc = 
+            new QuantumCircuit(4)
+            .cx(0, 2)
+            .cx(1, 3);
+
+        expect(qc.depth()).toBe(1);
+        expect(qc.draw()).toBe([
+            'q0: ─●───',
+            '     │',
+            'q1: ─┼─●─',
+            '     │ │',
+            'q2: ─⊕─┼─',
+            '       │',
+            'q3: ───⊕─'
+        ].join('\n'));
+    });
+
+    test('Independent operations share columns', () =>
+    {
+        const qc = 
+            new QuantumCircuit(4)
+            .cx(0, 1)
+            .append(new X(), 3, [2], '0')
+            .swap(1, 2);
+
+        expect(qc.depth()).toBe(2);
+        expect(`${qc}`).toBe([
+            'q0: ─●───',
+            '     │',
+            'q1: ─⊕─×─',
+            '       │',
+            'q2: ─○─×─',
+            '     │',
+            'q3: ─⊕───'
+        ].join('\n'));
+    });
+
+    test('Labels are aligned for wide circuits', () =>
+    {
+        const lines = new QuantumCircuit(11).x(10).draw().split('\n');
+
+        expect(lines[0]).toBe(' q0: ─────');
+        expect(lines[20]).toBe('q10: ─┤X├─');
+    });
+
+    test('Classically conditioned gates are annotated', () =>
+    {
+        const qc = 
+            new QuantumCircuit(2, 2)
+            .x(1, { clbits: [0], value: 1 })
+            .append(new X(), 0, [1], '', { clbits: [1, 0], value: 1 });
+
+        expect(qc.draw()).toBe([
+            'q0: ─────────────┤X if c1=1,c0=0├─',
+            '                        │',
+            'q1: ─┤X if c0=1├────────●─────────'
+        ].join('\n'));
+    });
+
+    test('Conditioned gates come after the measurements they read', () =>
+    {
+        const qc = 
+            new QuantumCircuit(3, 1)
+            .h(0)
+            .measure(0, 0)
+            .x(1, { clbits: [0], value: 1 })
+            .appendStep([new X(), new Z()], [1, 2], { clbits: [0], value: 0 })
+            .measure(2, 0);
+
+        expect(qc.depth()).toBe(5);
+        expect(qc.draw()).toBe([
+            'q0: ─┤H├─┤M├─────────────────────────────',
+            '',
+            'q1: ─────────┤X if c0=1├─┤X if c0=0├─────',
+            '',
+            'q2: ─────────┤Z if c0=0├─────────────┤M├─'
+        ].join('\n'));
+    });
+});
@@ -1,5 +1,6 @@
 import { Complex } from '../src/complex';
-import { H, I, S, T, X, Y, Z } from '../src/gates';
+import { ECR, H, I, iSWAP, Measure, P, Reset, RX, RY, RZ, S, SWAP, SX, T, U, UnitaryGate, X, Y, Z } from '../src/gates';
+import { Parameter } from '../src/parameter';
 
 
 for (const { gate, matrix } of [
@@ -7,7 +8,14 @@ for (const { gate, matrix } of [
     { gate: X, matrix: [0, 1, 1, 0] },
     { gate: Y, matrix: [0, Complex.NEG_I, Complex.I, 0] },
     { gate: Z, matrix: [1, 0, 0, Complex.NEG_ONE] },
-    { gate: H, matrix: [Complex.A, Complex.A, Complex.A, Complex.NEG_A] }
+    { gate: H, matrix: [Complex.A, Complex.A, Complex.A, Complex.NEG_A] },
+    { gate: SWAP, matrix: [1, 0, 0, 0, 0, 0, 1, 0, 0, 1, 0, 0, 0, 0, 0, 1] },
+    { gate: ECR,  matrix: [
+        0, Complex.A, 0, Complex.mul(Complex.A, Complex.I),
+        Complex.A, 0, Complex.mul(Complex.A, Complex.NEG_I), 0,
+        0, Complex.mul(Complex.A, Complex.I), 0, Complex.A,
+        Complex.mul(Complex.A, Complex.NEG_I), 0, Complex.A, 0
+    ] }
 ])
     describe(`${gate.name}: `, () => 
     {
@@ -30,6 +38,12 @@ for (const { gate, matrix } of [
 for (const { gate, normal, dagger } of [
     { gate: S, normal: [1, 0, 0, Complex.I], dagger: [1, 0, 0, Complex.NEG_I] },
     { gate: T, normal: [1, 0, 0, Complex.B], dagger: [1, 0, 0, Complex.C] },
+    { gate: SX,
+      normal: [new Complex(1, 0, 1, 0, 2).index, new Complex(1, 0, -1, 0, 2).index, new Complex(1, 0, -1, 0, 2).index, new Complex(1, 0, 1, 0, 2).index],
+      dagger: [new Complex(1, 0, -1, 0, 2).index, new Complex(1, 0, 1, 0, 2).index, new Complex(1, 0, 1, 0, 2).index, new Complex(1, 0, -1, 0, 2).index] },
+    { gate: iSWAP, 
+      normal: [1, 0, 0, 0, 0, 0, Complex.I, 0, 0, Complex.I, 0, 0, 0, 0, 0, 1], 
+      dagger: [1, 0, 0, 0, 0, 0, Complex.NEG_I, 0, 0, Complex.NEG_I, 0, 0, 0, 0, 0, 1] },
 ])
     describe(`${gate.name}: `, () => 
     {
@@ -72,3 +86,232 @@ for (const { gate, normal, dagger } of [
         });
     });
 
+for (const { gate, label } of [
+    { gate: new I(),     label: 'I'    },
+    { gate: new X(),     label: 'X'    },
+    { gate: new Y(),     label: 'Y'    },
+    { gate: new Z(),     label: 'Z'    },
+    { gate: new H(),     label: 'H'    },
+    { gate: new S(),     label: 'S'    },
+    { gate: new S(true), label: 'S†'   },
+    { gate: new T(),     label: 'T'    },
+    { gate: new T(true), label: 'T†'   },
+    { gate: new SX(),    label: 'SX'   },
+    { gate: new SX(true), label: 'SX†' },
+    { gate: new SWAP(),  label: 'SWAP' },
+    { gate: new iSWAP(), label: 'iSWAP' },
+    { gate: new iSWAP(true), label: 'iSWAP†' },
+    { gate: new ECR(),   label: 'ECR'  },
+    { gate: new Measure(), label: 'M'  },
+    { gate: new Reset(),   label: '|0⟩' }
+])
+    test(`Label check (${label})`, () =>
+    {
+        expect(gate.label()).toBe(label);
+    });
+
+for (const { gate, adjoint } of [
+    { gate: new I(),     adjoint: new I()     },
+    { gate: new X(),     adjoint: new X()     },
+    { gate: new Y(),     adjoint: new Y()     },
+    { gate: new Z(),     adjoint: new Z()     },
+    { gate: new H(),     adjoint: new H()     },
+    { gate: new S(),     adjoint: new S(true) },
+    { gate: new S(true), adjoint: new S()     },
+    { gate: new T(),     adjoint: new T(true) },
+    { gate: new T(true), adjoint: new T()     },
+    { gate: new SX(),    adjoint: new SX(true) },
+    { gate: new SX(true), adjoint: new SX()   },
+    { gate: new SWAP(),  adjoint: new SWAP()  },
+    { gate: new iSWAP(), adjoint: new iSWAP(true) },
+    { gate: new iSWAP(true), adjoint: new iSWAP() },
+    { gate: new ECR(),   adjoint: new ECR()   }
+])
+    test(`Adjoint check (${gate.label()})`, () =>
+    {
+        expect(gate.adjoint()).toBe(adjoint);
+    });
+
+for (const { gate, width } of [
+    { gate: new X(),       width: 1 },
+    { gate: new U(1, 2, 3), width: 1 },
+    { gate: new SWAP(),    width: 2 },
+    { gate: new iSWAP(),   width: 2 },
+    { gate: new ECR(),     width: 2 }
+])
+    test(`Width check (${gate.label()})`, () =>
+    {
+        expect(gate.width()).toBe(width);
+    });
+
+for (const { gate, error } of [
+    { gate: new Measure(), error: 'Error in Measure.adjoint(): Measurements are not reversible.' },
+    { gate: new Reset(),   error: 'Error in Reset.adjoint(): Resets are not reversible.'         }
+])
+    test(`Adjoint check (${gate.label()})`, () =>
+    {
+        expect(() => { gate.adjoint(); }).toThrow(error);
+    });
+
+for (const { gate, matrix } of [
+    { gate: new RX(Math.PI),              matrix: [0, Complex.NEG_I, Complex.NEG_I, 0] },
+    { gate: new RY(Math.PI / 2),          matrix: [Complex.A, Complex.NEG_A, Complex.A, Complex.A] },
+    { gate: new RZ(Math.PI / 2),          matrix: [Complex.C, 0, 0, Complex.B] },
+    { gate: new P(Math.PI / 4),           matrix: new T().matrix() },
+    { gate: new P(-3 * Math.PI / 4),      matrix: [1, 0, 0, Complex.mul(Complex.NEG_ONE, Complex.B)] },
+    { gate: new RX(Math.PI / 2),          matrix: [Complex.A, Complex.mul(Complex.NEG_I, Complex.A), Complex.mul(Complex.NEG_I, Complex.A), Complex.A] },
+    { gate: new U(Math.PI / 2, 0, Math.PI), matrix: new H().matrix() }
+])
+    test(`Exact angles resolve to exact matrices (${gate.label()})`, () =>
+    {
+        expect(gate.matrix()).toEqual(matrix);
+    });
+
+test('Phases on dyadic fractions of pi stay exact', () =>
+{
+    for (let k = -8; k <= 8; k++)
+        expect(new P(k * Math.PI / 4).matrix().some(i => Complex.get(i)!.isNumeric())).toBe(false);
+
+    for (const gate of [new P(Math.PI / 8), new P(-3 * Math.PI / 512), new RY(Math.PI / 4), new RX(Math.PI / 16), new U(Math.PI / 8, Math.PI / 32, 0), new P(Math.PI / 2048), new RZ(3 * Math.PI / 2 ** 14)])
+        expect(gate.matrix().some(i => Complex.get(i)!.isNumeric())).toBe(false);
+
+    expect(Complex.get(new P(Math.PI / 8).matrix()[3])!.re()).toBeCloseTo(Math.cos(Math.PI / 8), 15);
+    expect(Complex.get(new RY(Math.PI / 4).matrix()[2])!.re()).toBeCloseTo(Math.sin(Math.PI / 8), 15);
+    expect(Complex.get(new P(0.3).matrix()[3])!.isNumeric()).toBe(true);
+    expect(Complex.get(new P(Math.PI / 2 ** 16).matrix()[3])!.isNumeric()).toBe(true);
+});
+
+test('Rotation matrices are unitary', () =>
+{
+    const [a, b, c, d] = new U(0.3, -1.2, 2.5).matrix().map(i => Complex.get(i)!);
+
+    expect(a.mag2() + b.mag2()).toBeCloseTo(1, 12);
+    expect(c.mag2() + d.mag2()).toBeCloseTo(1, 12);
+    // the columns are orthogonal
+    expect(a.re() * b.re() + a.im() * b.im() + c.re() * d.re() + c.im() * d.im()).toBeCloseTo(0, 12);
+    expect(a.re() * b.im() - a.im() * b.re() + c.re() * d.im() - c.im() * d.re()).toBeCloseTo(0, 12);
+});
+
+for (const { gate, label } of [
+    { gate: new RX(Math.PI / 2),     label: 'RX(π/2)'          },
+    { gate: new RY(-Math.PI),        label: 'RY(-π)'           },
+    { gate: new RZ(0.3),             label: 'RZ(0.3)'          },
+    { gate: new P(3 * Math.PI / 8),  label: 'P(3π/8)'          },
+    { gate: new U(Math.PI, 0, 1.23456), label: 'U(π,0,1.2346)' }
+])
+    test(`Label check (${label})`, () =>
+    {
+        expect(gate.label()).toBe(label);
+    });
+
+for (const { gate, adjoint } of [
+    { gate: new RX(0.3),     adjoint: new RX(-0.3)     },
+    { gate: new RY(0.3),     adjoint: new RY(-0.3)     },
+    { gate: new RZ(0.3),     adjoint: new RZ(-0.3)     },
+    { gate: new P(0.3),      adjoint: new P(-0.3)      },
+    { gate: new U(1, 2, 3),  adjoint: new U(-1, -3, -2) }
+])
+    test(`Adjoint check (${gate.label()})`, () =>
+    {
+        expect(gate.adjoint()).toEqual(adjoint);
+    });
+
+describe('Symbolic rotations: ', () =>
+{
+    const theta = new Parameter('theta');
+    const phi = new Parameter('phi');
+
+    test('Unbound parameters have no matrix', () =>
+    {
+        expect(() => { new RX(theta).matrix(); }).toThrow(`Error in RX.matrix(): Unbound parameter 'theta'.`);
+        expect(() => { new U(0.1, 0.2, phi).matrix(); }).toThrow(`Error in U.matrix(): Unbound parameter 'phi'.`);
+    });
+
+    test('Labels, parameters and adjoints', () =>
+    {
+        const gate = new U(theta, Math.PI, phi.times(2));
+
+        expect(gate.label()).toBe('U(theta,π,2*phi)');
+        expect(gate.parameters()).toEqual([theta, phi]);
+        expect(gate.adjoint()).toEqual(new U(theta.times(-1), phi.times(-2), -Math.PI));
+        expect(new H().parameters()).toEqual([]);
+    });
+
+    test('Binding', () =>
+    {
+        expect(new RY(theta).bind({ theta: 0.5 })).toEqual(new RY(0.5));
+        expect(new P(theta.times(-1)).bind({ theta: 0.5 })).toEqual(new P(-0.5));
+        expect(new U(theta, phi, 1).bind({ phi: 2 })).toEqual(new U(theta, 2, 1));
+        expect(new RZ(phi).bind({ theta: 2 }).parameters()).toEqual([phi]);
+        expect(new X().bind({ theta: 2 })).toBe(new X());
+    });
+});
+
+describe('UnitaryGate: ', () =>
+{
+    const sx = [[{ re: 0.5, im: 0.5 }, { re: 0.5, im: -0.5 }], [{ re: 0.5, im: -0.5 }, { re: 0.5, im: 0.5 }]];
+
+    test('Exact indices are kept as is', () =>
+    {
+        const gate = new UnitaryGate([Complex.A, Complex.A, Complex.A, Complex.NEG_A], 'H2');
+
+        expect(gate.matrix()).toEqual(new H().matrix());
+        expect(gate.label()).toBe('H2');
+    });
+
+    test('Numeric values snap to exact entries', () =>
+    {
+        expect(new UnitaryGate([[0, { re: 0, im: -1 }], [{ re: 0, im: 1 }, 0]]).matrix()).toEqual(new Y().matrix());
+        expect(new UnitaryGate([[Math.SQRT1_2, Math.SQRT1_2], [Math.SQRT1_2, -Math.SQRT1_2]]).matrix()).toEqual(new H().matrix());
+    });
+
+    test('Values within the tolerance are accepted', () =>
+    {
+        const r = 0.707106781;
+
+        expect(new UnitaryGate([[r, r], [r, -r]]).label()).toBe('Unitary');
+    });
+
+    test('Adjoint check', () =>
+    {
+        const gate = new UnitaryGate(sx, 'SX');
+        const adjoint = gate.adjoint();
+
+        expect(adjoint.label()).toBe('SX†');
+        expect(adjoint.matrix()).toEqual(new UnitaryGate([[{ re: 0.5, im: -0.5 }, { re: 0.5, im: 0.5 }], [{ re: 0.5, im: 0.5 }, { re: 0.5, im: -0.5 }]]).matrix());
+        expect(adjoint.adjoint()).toEqual(gate);
+        expect(new UnitaryGate(new T().matrix()).adjoint().matrix()).toEqual(new T(true).matrix());
+    });
+
+    for (const { matrix, error } of [
+        { matrix: [[1, 1], [0, 1]],       error: 'The given matrix is not unitary.' },
+        { matrix: [[2, 0], [0, 0.5]],     error: 'The given matrix is not unitary.' },
+        { matrix: [1, 0, 0],              error: 'Expected 4, 16 or 64 complex indices (received 3).' },
+        { matrix: [1, 0, 0, 100_000],     error: 'Unknown complex index 100000.' },
+        { matrix: [[1, 0], [0, 1], [0, 0]], error: 'Expected a 2x2, 4x4 or 8x8 matrix.' },
+        { matrix: [[1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 1, 0], [0, 0, 1]], error: 'Expected a 2x2, 4x4 or 8x8 matrix.' },
+        { matrix: [[1, 0], [0, NaN]],     error: 'Non-finite matrix entry passed.' }
+    ])
+        test(`Erroneous matrix (${error})`, () =>
+        {
+            expect(() => { new UnitaryGate(matrix); }).toThrow(`Error in UnitaryGate(): ${error}`);
+        });
+
+    test('Multi-qubit matrices', () =>
+    {
+        // the Toffoli gate, with its first two targets as the controls
+        const toffoli = [...Array(8).keys()].map(row => [...Array(8).keys()].map(col => ((row & 3) === 3 ? row ^ 4 : row) === col ? 1 : 0));
+        const ccx = new UnitaryGate(toffoli, 'CCX');
+
+        expect(ccx.width()).toBe(3);
+        expect(ccx.matrix()[3 * 8 + 7]).toBe(1);
+        expect(ccx.matrix()[3 * 8 + 3]).toBe(0);
+        expect(new UnitaryGate(new iSWAP().matrix()).width()).toBe(2);
+        expect(new UnitaryGate(new iSWAP().matrix()).adjoint().matrix()).toEqual(new iSWAP(true).matrix());
+    });
+
+    test('Empty labels are rejected', () =>
+    {
+        expect(() => { new UnitaryGate([1, 0, 0, 1], ''); }).toThrow('Error in UnitaryGate(): The label of the gate cannot be empty.');
+    });
+});
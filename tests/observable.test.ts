@@ -0,0 +1,83 @@
+import { Complex } from "../src/complex";
+import { Observable, SparsePauliOp } from "../src/observable";
+
+describe('Observable: ', () =>
+{
+    test('Control test (normal case)', () =>
+    {
+        const observable = new Observable([['XX', 0.5], ['ZI', -1.2], ['IZ', 1]]);
+
+        expect(observable.width()).toBe(2);
+        expect(observable.terms).toEqual([
+            { coefficient: 0.5, pauli: 'XX' }, 
+            { coefficient: -1.2, pauli: 'ZI' }, 
+            { coefficient: 1, pauli: 'IZ' }
+        ]);
+        expect(`${observable}`).toBe('0.5*XX - 1.2*ZI + IZ');
+        expect(new SparsePauliOp([['Y', 2]])).toBeInstanceOf(Observable);
+    });
+
+    test('Repeated strings are merged', () =>
+    {
+        const observable = new Observable([['ZZ', 1], ['XI', 2], ['ZZ', 0.5], ['XI', -2]]);
+
+        expect(observable.terms).toEqual([{ coefficient: 1.5, pauli: 'ZZ' }]);
+        expect(new Observable([['X', 1], ['X', -1]]).toString()).toBe('0*I');
+    });
+
+    test('Repeated decimal coefficients are merged exactly', () =>
+    {
+        const observable = new Observable([['Z', 0.1], ['X', 0.7], ['Z', 0.2], ['X', -0.1], ['X', -0.6]]);
+
+        expect(observable.terms).toEqual([{ coefficient: 0.3, pauli: 'Z' }]);
+        expect(observable.coefficients()).toEqual([new Complex(3, 0, 0, 0, 10).index]);
+        expect(new Observable([['YY', 0.1], ['YY', 0.2], ['YY', -0.3]]).toString()).toBe('0*II');
+    });
+
+    test('Exact coefficients', () =>
+    {
+        expect(new Observable([['X', 0.5], ['Y', -3], ['Z', 0.1]]).coefficients()).toEqual([
+            new Complex(1, 0, 0, 0, 2).index, 
+            new Complex(-3, 0, 0, 0).index, 
+            new Complex(1, 0, 0, 0, 10).index
+        ]);
+        expect(new Observable([['X', 2.5e-7], ['Y', 4e21]]).coefficients()).toEqual([
+            new Complex(1n, 0n, 0n, 0n, 4000000n).index, 
+            new Complex(4000000000000000000000n, 0n, 0n, 0n).index
+        ]);
+    });
+
+    test('Parsing', () =>
+    {
+        expect(Observable.parse('0.5*XX - 1.2*ZI + IZ')).toEqual(new Observable([['XX', 0.5], ['ZI', -1.2], ['IZ', 1]]));
+        expect(Observable.parse('  -ZZ+.25 * XY-1e-2*YX ')).toEqual(new Observable([['ZZ', -1], ['XY', 0.25], ['YX', -0.01]]));
+        expect(Observable.parse('+3.*I')).toEqual(new Observable([['I', 3]]));
+
+        const observable = new Observable([['XYZ', -0.75], ['IIZ', 2]]);
+
+        expect(Observable.parse(observable.toString())).toEqual(observable);
+    });
+
+    for (const [source, message] of [
+        ['', 'No terms were found.'],
+        ['XX ZZ', `Unexpected input at position 3 ('ZZ').`],
+        ['0.5*XX - ', `Unexpected input at position 7 ('-').`],
+        ['2*', `Unexpected input at position 0 ('2*').`],
+    ])
+        test(`Invalid source ('${source}')`, () =>
+        {
+            expect(() => Observable.parse(source)).toThrow(`Error in Observable.parse(): ${message}`);
+        });
+
+    test('Invalid terms', () =>
+    {
+        expect(() => new Observable([]))
+        .toThrow('Error in Observable(): At least one term is required.');
+        expect(() => Observable.parse('XA'))
+        .toThrow(`Error in Observable(): Unrecognized character found in Pauli string 'XA', 'I', 'X', 'Y' or 'Z' were expected.`);
+        expect(() => new Observable([['XX', 1], ['Z', 1]]))
+        .toThrow('Error in Observable(): All Pauli strings must span the same amount of qubits (2 and 1 were given).');
+        expect(() => new Observable([['X', Infinity]]))
+        .toThrow('Error in Observable(): Non-finite coefficient passed.');
+    });
+});
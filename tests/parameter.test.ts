@@ -0,0 +1,54 @@
+import { bindAngle, negate, Parameter, symbols } from "../src/parameter";
+
+describe('Parameter: ', () =>
+{
+    test('Control test (normal case)', () =>
+    {
+        const theta = new Parameter('theta');
+
+        expect(theta.name).toBe('theta');
+        expect(theta.coefficient).toBe(1);
+        expect(`${theta}`).toBe('theta');
+    });
+
+    for (const name of ['', '1x', 'a-b', 'θ'])
+        test(`Invalid name ('${name}')`, () =>
+        {
+            expect(() => { new Parameter(name); }).toThrow(`Error in Parameter(): Invalid parameter name '${name}'.`);
+        });
+
+    test('Non-finite coefficient', () =>
+    {
+        expect(() => { new Parameter('x', NaN); }).toThrow('Error in Parameter(): Non-finite coefficient passed.');
+    });
+
+    test('Scaling', () =>
+    {
+        const phi = new Parameter('phi');
+
+        expect(phi.times(-1).toString()).toBe('-phi');
+        expect(phi.times(2).times(1.5).toString()).toBe('3*phi');
+        expect(negate(phi.times(2))).toEqual(new Parameter('phi', -2));
+        expect(negate(0.5)).toBe(-0.5);
+    });
+
+    test('Binding', () =>
+    {
+        const phi = new Parameter('phi', -2);
+
+        expect(bindAngle(phi, { phi: 0.25 })).toBe(-0.5);
+        expect(bindAngle(phi, { theta: 0.25 })).toBe(phi);
+        expect(bindAngle(0.1, { phi: 0.25 })).toBe(0.1);
+    });
+
+    test('Inherited keys are not values', () =>
+    {
+        for (const name of ['constructor', 'toString', '__proto__'])
+            expect(bindAngle(new Parameter(name), {})).toEqual(new Parameter(name));
+    });
+
+    test('Symbols are unscaled', () =>
+    {
+        expect(symbols(0.3, new Parameter('a', 3), new Parameter('b'))).toEqual([new Parameter('a'), new Parameter('b')]);
+    });
+});
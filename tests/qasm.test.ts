@@ -0,0 +1,184 @@
+import { parseQASM } from "../src/qasm";
+
+const header = 'OPENQASM 2.0;\ninclude "qelib1.inc";\n';
+
+describe('parseQASM: ', () =>
+{
+    test('Control test (normal case)', () =>
+    {
+        expect(parseQASM(header + 'qreg q[2];\nh q[0];\ncx q[0], q[1];')).toEqual({
+            qubits: 2,
+            clbits: 0,
+            operations: [
+                { name: 'h', qubits: [0] },
+                { name: 'cx', qubits: [0, 1] }
+            ]
+        });
+    });
+
+    test('Registers are flattened in order of declaration', () =>
+    {
+        const { qubits, operations } = parseQASM(header + 'qreg a[2];\ncreg c[2];\nqreg b[3];\nx b[1];\nx a[1];');
+
+        expect(qubits).toBe(5);
+        expect(operations).toEqual([{ name: 'x', qubits: [3] }, { name: 'x', qubits: [1] }]);
+    });
+
+    test('Whole registers are broadcast', () =>
+    {
+        const { operations } = parseQASM(header + 'qreg a[2];\nqreg b[2];\nh a;\ncx a, b;\ncx a[0], b;');
+
+        expect(operations).toEqual([
+            { name: 'h', qubits: [0] },
+            { name: 'h', qubits: [1] },
+            { name: 'cx', qubits: [0, 2] },
+            { name: 'cx', qubits: [1, 3] },
+            { name: 'cx', qubits: [0, 2] },
+            { name: 'cx', qubits: [0, 3] }
+        ]);
+    });
+
+    test('Comments and barriers are ignored', () =>
+    {
+        const { operations } = parseQASM(header + '// comment\nqreg q[2]; /* block\ncomment */\nbarrier q;\nz q[1];');
+
+        expect(operations).toEqual([{ name: 'z', qubits: [1] }]);
+    });
+
+    test('Custom gate definitions are inlined', () =>
+    {
+        const { operations } = parseQASM(header +
+            'gate bell a, b { h a; cx a, b; }\n' +
+            'gate phase(k) a { u1(k * pi / 4) a; }\n' +
+            'qreg q[3];\nbell q[2], q[0];\nphase(3) q[1];');
+
+        expect(operations).toEqual([
+            { name: 'h', qubits: [2] },
+            { name: 'cx', qubits: [2, 0] },
+            { name: 's', qubits: [1] },
+            { name: 't', qubits: [1] }
+        ]);
+    });
+
+    test('Measurements are flattened and broadcast', () =>
+    {
+        const { clbits, operations } = parseQASM(header + 'qreg q[2];\ncreg a[1];\ncreg b[2];\nmeasure q -> b;\nmeasure q[1] -> a[0];');
+
+        expect(clbits).toBe(3);
+        expect(operations).toEqual([
+            { name: 'measure', qubits: [0], clbits: [1] },
+            { name: 'measure', qubits: [1], clbits: [2] },
+            { name: 'measure', qubits: [1], clbits: [0] }
+        ]);
+    });
+
+    test('Resets are broadcast', () =>
+    {
+        const { operations } = parseQASM(header + 'qreg a[1];\nqreg b[2];\nreset b;\nreset a[0];');
+
+        expect(operations).toEqual([
+            { name: 'reset', qubits: [1] },
+            { name: 'reset', qubits: [2] },
+            { name: 'reset', qubits: [0] }
+        ]);
+    });
+
+    test('Conditions apply to every operation of the gate call', () =>
+    {
+        const { operations } = parseQASM(header + 
+            'gate bell a, b { h a; cx a, b; }\n' + 
+            'qreg q[2];\ncreg a[1];\ncreg b[2];\nif(b==2) bell q[0], q[1];\nif (a == 1) x q;\nz q[0];');
+
+        expect(operations).toEqual([
+            { name: 'h',  qubits: [0],    condition: { clbits: [1, 2], value: 2 } },
+            { name: 'cx', qubits: [0, 1], condition: { clbits: [1, 2], value: 2 } },
+            { name: 'x',  qubits: [0],    condition: { clbits: [0], value: 1 } },
+            { name: 'x',  qubits: [1],    condition: { clbits: [0], value: 1 } },
+            { name: 'z',  qubits: [0] }
+        ]);
+    });
+
+    test('Measurements and resets can be conditioned', () =>
+    {
+        const { operations } = parseQASM(header + 'qreg q[2];\ncreg c[2];\nif(c==1) measure q -> c;\nif(c==2) reset q[1];');
+
+        expect(operations).toEqual([
+            { name: 'measure', qubits: [0], clbits: [0], condition: { clbits: [0, 1], value: 1 } },
+            { name: 'measure', qubits: [1], clbits: [1], condition: { clbits: [0, 1], value: 1 } },
+            { name: 'reset',   qubits: [1],              condition: { clbits: [0, 1], value: 2 } }
+        ]);
+    });
+
+    test('Square roots of X are built in', () =>
+    {
+        expect(parseQASM(header + 'qreg q[2];\nsx q[0];\nsxdg q[1];\ncsx q[1], q[0];').operations).toEqual([
+            { name: 'sx',   qubits: [0] },
+            { name: 'sxdg', qubits: [1] },
+            { name: 'csx',  qubits: [1, 0] }
+        ]);
+    });
+
+    for (const { source, names } of [
+        { source: 'u1(pi/4) q[0];',       names: ['t'] },
+        { source: 'u1(-pi/4) q[0];',      names: ['tdg'] },
+        { source: 'p(pi) q[0];',          names: ['z'] },
+        { source: 'U(0, pi/2, 0) q[0];',  names: ['s'] },
+        { source: 'u3(0, pi, -pi) q[0];', names: [] },
+        { source: 'u(0, 0, pi/2) q[0];',  names: ['s'] },
+        { source: 'u0(1) q[0];',          names: [] },
+        { source: 'cu1(-pi/2) q[1], q[0];', names: ['csdg'] },
+        { source: 'cp(5*pi/4) q[1], q[0];', names: ['cz', 'ct'] }
+    ])
+        test(`Clifford+T phases are resolved (${source})`, () =>
+        {
+            expect(parseQASM(header + 'qreg q[2];\n' + source).operations.map(op => op.name)).toEqual(names);
+        });
+
+    for (const { source, operation } of [
+        { source: 'rx(pi/3) q[0];',         operation: { name: 'rx',  qubits: [0],    params: [Math.PI / 3] } },
+        { source: 'ry(-0.5) q[1];',         operation: { name: 'ry',  qubits: [1],    params: [-0.5] } },
+        { source: 'rz(2e-3) q[0];',         operation: { name: 'rz',  qubits: [0],    params: [2e-3] } },
+        { source: 'u1(0.1) q[0];',          operation: { name: 'p',   qubits: [0],    params: [0.1] } },
+        { source: 'u2(0, pi) q[0];',        operation: { name: 'u',   qubits: [0],    params: [Math.PI / 2, 0, Math.PI] } },
+        { source: 'U(1, 2, 3) q[0];',       operation: { name: 'u',   qubits: [0],    params: [1, 2, 3] } },
+        { source: 'u(1, 2, 3) q[0];',       operation: { name: 'u',   qubits: [0],    params: [1, 2, 3] } },
+        { source: 'cu1(0.1) q[1], q[0];',   operation: { name: 'cp',  qubits: [1, 0], params: [0.1] } },
+        { source: 'crx(0.2) q[1], q[0];',   operation: { name: 'crx', qubits: [1, 0], params: [0.2] } },
+        { source: 'cu3(1, 2, 3) q[0], q[1];', operation: { name: 'cu', qubits: [0, 1], params: [1, 2, 3] } }
+    ])
+        test(`Rotations keep their angles (${source})`, () =>
+        {
+            expect(parseQASM(header + 'qreg q[2];\n' + source).operations).toEqual([operation]);
+        });
+
+    for (const { source, error } of [
+        { source: 'OPENQASM 3.0;',                 error: 'Unsupported OpenQASM version 3.0 at line 1, column 10.' },
+        { source: 'include "stdgates.inc";',       error: `Cannot include 'stdgates.inc', only 'qelib1.inc' is supported at line 1, column 9.` },
+        { source: 'qreg q[2];\nrxx(pi/3) q[0], q[1];', error: `Unsupported gate 'rxx' at line 2, column 1.` },
+        { source: 'qreg q[2];\n  rx q[0];',     error: `Gate 'rx' expects 1 parameters but 0 were given at line 2, column 3.` },
+        { source: 'qreg q[2];\nu3(pi, 0) q[0];', error: `Gate 'u3' expects 3 parameters but 2 were given at line 2, column 1.` },
+        { source: 'qreg q[2];\nfoo q[0];',      error: `Unknown gate 'foo' at line 2, column 1.` },
+        { source: 'qreg q[2];\nx r[0];',        error: `Unknown quantum register 'r' at line 2, column 1.` },
+        { source: 'qreg q[2];\nx q[2];',        error: `Index 2 out of bounds for register 'q' of size 2 at line 2, column 1.` },
+        { source: 'qreg q[2];\ncx q[0], q[0];', error: `Duplicate qubit arguments passed to 'cx' at line 2, column 1.` },
+        { source: 'qreg q[2];\ncx q[0];',       error: `Gate 'cx' expects 2 qubit arguments but 1 were given at line 2, column 1.` },
+        { source: 'qreg q[2];\nx q[0]',         error: `Expected ';' but found 'end of input' at line 2, column 7.` },
+        { source: 'qreg q[2];\nopaque g a;',    error: `Unsupported construct 'opaque' at line 2, column 1.` },
+        { source: 'qreg q[2];\nmeasure q -> c;', error: `Unknown classical register 'c' at line 2, column 1.` },
+        { source: 'qreg q[2];\ncreg c[1];\nmeasure q -> c;', error: `Mismatched register sizes in 'measure' at line 3, column 1.` },
+        { source: 'qreg q[2];\nreset q[3];',    error: `Index 3 out of bounds for register 'q' of size 2 at line 2, column 1.` },
+        { source: 'qreg q[2];\nif(c==1) x q[0];', error: `Unknown classical register 'c' at line 2, column 4.` },
+        { source: 'qreg q[2];\ncreg c[2];\nif(c==4) x q[0];', error: `Value 4 cannot be held by register 'c' of size 2 at line 3, column 7.` },
+        { source: 'qreg q[2];\ncreg c[2];\nif(c==1) barrier q;', error: `Only gate calls, measurements and resets can be conditioned at line 3, column 10.` },
+        { source: 'qreg q[2];\nu0 q[0];',       error: `Gate 'u0' expects 1 parameters but 0 were given at line 2, column 1.` },
+        { source: 'qreg q[2];\ncreg c[2];\nif(c 1) x q[0];', error: `Expected '==' but found '1' at line 3, column 6.` },
+        { source: 'qreg q[2];\nx q[0]; $',      error: `Unexpected character '$' at line 2, column 9.` },
+        { source: 'qreg q[2];\nqreg q[1];',     error: `Register 'q' is already declared at line 2, column 6.` },
+        { source: 'qreg q[2];\ngate g a { rzz(pi) a; }\ng q[0];', error: `Unsupported gate 'rzz' at line 2, column 12.` },
+        { source: 'creg c[2];',                    error: 'No quantum registers were declared.' }
+    ])
+        test(`Erroneous program (${error})`, () =>
+        {
+            expect(() => { parseQASM(source); }).toThrow(`Error in parseQASM(): ${error}`);
+        });
+});
@@ -1,6 +1,6 @@
 import { Complex } from "../src/complex";
-import { H, I, S, T, X } from "../src/gates";
-import { Edge, QMDD } from "../src/qmdd";
+import { ECR, H, I, S, SWAP, T, UnitaryGate, X, Y, Z } from "../src/gates";
+import { Edge, MatrixEdge, QMDD } from "../src/qmdd";
 
 describe('QMDD: ', () =>
 {
@@ -57,7 +57,7 @@ describe('QMDD: ', () =>
         expect(y0.dest).toBe(y1.dest);
     });
 
-    test('Redundant Vertices get eliminated', () =>
+    test('Matrix Vertices with equal edges are kept (skipped variables stand for the identity)', () =>
     {
         const ter = QMDD.createTerminal(1);
         const edges: Edge[] = [
@@ -69,7 +69,8 @@ describe('QMDD: ', () =>
         const y = QMDD.createVertex(0, edges, ter);
 
         expect(y.weight).toBe(Complex.I);
-        expect(y.dest).toBe(ter);
+        expect(y.dest).not.toBe(ter);
+        expect(y.dest.edges.map(d => d.weight)).toEqual([1, 1, 1, 1]);
     });
 
     test('Identity Vertices (up to a scalar) get eliminated', () =>
@@ -340,6 +341,50 @@ describe('QMDD: ', () =>
                 expect([vl.edges[0], vr.edges[1]]).toEqual([{ dest: ter, weight: 1 }, { dest: ter, weight: 1 }]);
             });
         });
+
+        describe('Multi-qubit gates: ', () =>
+        {
+            const ter = QMDD.createTerminal(3);
+            // q0 = q1 = 1, i.e. the basis state '011'
+            const state = [0, 1].reduce((dd, q) => QMDD.multiply(QMDD.construct(new X(), q, [], ter), dd, ter), QMDD.groundState(ter));
+
+            test('Non-adjacent targets around a control', () =>
+            {
+                const cswap = QMDD.construct(new SWAP(), [0, 2], [{ index: 1, state: '1' }], ter);
+                const inactive = QMDD.construct(new SWAP(), [0, 2], [{ index: 1, state: '0' }], ter);
+
+                expect([...QMDD.strongSimulate(QMDD.multiply(cswap, state, ter), 4)]).toEqual([{ state: '110', re: 1, im: 0 }]);
+                expect(QMDD.multiply(inactive, state, ter)).toEqual(state);
+            });
+
+            test('Target order follows the gate matrix', () =>
+            {
+                // the matrix of ECR with the roles of its qubits exchanged
+                const m = new ECR().matrix();
+                const swapped = (i: number) => ((i & 1) << 1) | (i >> 1);
+                const reversed = new UnitaryGate(m.map((_, k) => m[swapped(k >> 2) * 4 + swapped(k & 3)]));
+
+                expect(QMDD.construct(reversed, [0, 2], [], ter)).toEqual(QMDD.construct(new ECR(), [2, 0], [], ter));
+                expect(QMDD.construct(reversed, [0, 2], [], ter)).not.toEqual(QMDD.construct(new ECR(), [0, 2], [], ter));
+            });
+
+            test('Quadrants with equal blocks are not mistaken for the identity', () =>
+            {
+                const gate = new UnitaryGate([[1, 1, 1, 1], [1, 1, -1, -1], [1, -1, 1, -1], [1, -1, -1, 1]].map(row => row.map(x => x / 2)));
+                const dd = QMDD.multiply(QMDD.construct(gate, [0, 1], [], ter), QMDD.groundState(ter), ter);
+
+                expect([...QMDD.strongSimulate(dd, 4)].map(({ re }) => re)).toEqual([0.5, 0.5, 0.5, 0.5]);
+            });
+        });
+
+        test('Custom unitaries are built like the gates they equal', () =>
+        {
+            const ter = QMDD.createTerminal(2);
+            const custom = new UnitaryGate([[Math.SQRT1_2, Math.SQRT1_2], [Math.SQRT1_2, -Math.SQRT1_2]]);
+
+            expect(QMDD.construct(custom, 1, [{ index: 0, state: '0' }], ter))
+            .toEqual(QMDD.construct(new H(), 1, [{ index: 0, state: '0' }], ter));
+        });
     });
 
     describe('Strong simulation: ', () =>
@@ -380,6 +425,52 @@ describe('QMDD: ', () =>
         });
     });
 
+    describe('Reset: ', () =>
+    {
+        test('Trying to reset a zero-edge', () =>
+        {
+            const ter = QMDD.createTerminal(1);
+            const e: Edge = { dest: ter, weight: 0 };
+
+            expect(() => { QMDD.reset(e, 0, Math.random, ter); }).toThrow(`Error in QMDD.reset(): The passed entry is a zero edge.`);
+        });
+
+        test('Trying to reset a terminal edge', () =>
+        {
+            const ter = QMDD.createTerminal(1);
+            const e: Edge = { dest: ter, weight: 123 };
+
+            expect(() => { QMDD.reset(e, 0, Math.random, ter); }).toThrow(`Error in QMDD.reset(): The passed entry is a terminal edge.`);
+        });
+
+        test('Resetting |0> leaves the diagram untouched', () =>
+        {
+            const ter = QMDD.createTerminal(2);
+            const e = QMDD.groundState(ter);
+
+            expect(QMDD.reset(e, 1, () => { throw new Error('Unexpected draw.'); }, ter)).toBe(e);
+        });
+
+        test('Resetting |1> deterministically flips it', () =>
+        {
+            const ter = QMDD.createTerminal(2);
+            const e = QMDD.multiply(QMDD.construct(new X(), 0, [], ter), QMDD.groundState(ter), ter);
+            const reset = QMDD.reset(e, 0, () => { throw new Error('Unexpected draw.'); }, ter);
+
+            expect([...QMDD.strongSimulate(reset, 4)]).toEqual([{ state: '00', re: 1, im: 0 }]);
+        });
+
+        test('Resetting a superposition collapses the rest of the state', () =>
+        {
+            const ter = QMDD.createTerminal(2);
+            const h = QMDD.multiply(QMDD.construct(new H(), 0, [], ter), QMDD.groundState(ter), ter);
+            const bell = QMDD.multiply(QMDD.construct(new X(), 1, [{ index: 0, state: '1' }], ter), h, ter);
+
+            expect([...QMDD.strongSimulate(QMDD.reset(bell, 0, () => 0.25, ter), 4)]).toEqual([{ state: '00', re: 1, im: 0 }]);
+            expect([...QMDD.strongSimulate(QMDD.reset(bell, 0, () => 0.75, ter), 4)]).toEqual([{ state: '10', re: 1, im: 0 }]);
+        });
+    });
+
     describe('Addition: ', () =>
     {
         test('Sums are cached', () =>
@@ -481,9 +572,7 @@ describe('QMDD: ', () =>
             const e1 = QMDD.construct(new H(), 0, [], ter);
             const prod = QMDD.multiply(e0, e1, ter);
 
-            expect(prod.weight).toBe(1);
-            expect(prod.dest.edges.map(d => d.dest)).toEqual([ter, ter]);
-            expect(prod.dest.edges.map(d => d.weight)).toEqual([1, 0]);
+            expect(prod).toEqual({ dest: ter, weight: 1 });
         });
 
         test('Multiplying a non-Hermitian with its dagger', () =>
@@ -493,9 +582,169 @@ describe('QMDD: ', () =>
             const e1 = QMDD.construct(new T(true), 0, [], ter);
             const prod = QMDD.multiply(e0, e1, ter);
 
-            expect(prod.weight).toBe(1);
-            expect(prod.dest.edges.map(d => d.dest)).toEqual([ter, ter]);
-            expect(prod.dest.edges.map(d => d.weight)).toEqual([1, 0]);
+            expect(prod).toEqual({ dest: ter, weight: 1 });
+        });
+
+        test('Matrix products follow the order of the operands', () =>
+        {
+            const ter = QMDD.createTerminal(1);
+            const x = QMDD.construct(new X(), 0, [], ter);
+            const z = QMDD.construct(new Z(), 0, [], ter);
+            const y = QMDD.construct(new Y(), 0, [], ter);
+            // XZ = -iY, ZX = iY
+            const xz = QMDD.multiply(x, z, ter);
+            const zx = QMDD.multiply(z, x, ter);
+
+            expect(xz.dest).toBe(y.dest);
+            expect(zx.dest).toBe(y.dest);
+            expect(xz.weight).toBe(Complex.mul(Complex.NEG_I, y.weight));
+            expect(zx.weight).toBe(Complex.mul(Complex.I, y.weight));
+        });
+
+        test('Matrix products over skipped variables', () =>
+        {
+            const ter = QMDD.createTerminal(3);
+            const cx01 = QMDD.construct(new X(), 1, [{ index: 0, state: '1' }], ter);
+            const cx10 = QMDD.construct(new X(), 0, [{ index: 1, state: '1' }], ter);
+            const h2 = QMDD.construct(new H(), 2, [], ter);
+            const x0 = QMDD.construct(new X(), 0, [], ter);
+            const swap = QMDD.multiply(cx01, QMDD.multiply(cx10, cx01, ter) as MatrixEdge, ter);
+
+            expect(swap).toEqual(QMDD.construct(new SWAP(), [0, 1], [], ter));
+            expect(QMDD.multiply(cx01, cx01, ter)).toEqual({ dest: ter, weight: 1 });
+            // operations on disjoint qubits commute
+            expect(QMDD.multiply(h2, x0, ter)).toEqual(QMDD.multiply(x0, h2, ter));
+        });
+
+        test('Nonzero entries of a matrix, identities expanded', () =>
+        {
+            const ter = QMDD.createTerminal(2);
+            const cz = QMDD.construct(new Z(), 1, [{ index: 0, state: '1' }], ter);
+            const entries = [...QMDD.entries(cz, ter, 4)].sort((a, b) => a.row.localeCompare(b.row));
+
+            expect(entries).toEqual([
+                { row: '00', col: '00', re:  1, im: 0 },
+                { row: '01', col: '01', re:  1, im: 0 },
+                { row: '10', col: '10', re:  1, im: 0 },
+                { row: '11', col: '11', re: -1, im: 0 }
+            ]);
+            expect([...QMDD.entries({ dest: ter, weight: Complex.I }, ter, 4)]).toHaveLength(4);
+            expect(() => [...QMDD.entries({ dest: ter, weight: 0 }, ter, 4)]).toThrow('Error in QMDD.entries(): The passed entry is a zero edge.');
+        });
+    });
+
+    describe('Counterexamples: ', () =>
+    {
+        const ter = QMDD.createTerminal(3);
+
+        test('The identity has none', () =>
+        {
+            expect(QMDD.counterexample({ dest: ter, weight: 1 }, ter)).toBeUndefined();
+            expect(QMDD.counterexample({ dest: ter, weight: Complex.I }, ter, true)).toBeUndefined();
+        });
+
+        test('A scaled identity deviates everywhere, unless up to a global phase', () =>
+        {
+            expect(QMDD.counterexample({ dest: ter, weight: Complex.I }, ter)).toBe('000');
+            expect(QMDD.counterexample({ dest: ter, weight: 0 }, ter, true)).toBe('000');
+        });
+
+        test('The deviating column is found below skipped variables', () =>
+        {
+            // CZ(0, 2) only deviates on |1x1>, and CCX(0, 1 -> 2) on |x11>
+            const cz = QMDD.construct(new Z(), 2, [{ index: 0, state: '1' }], ter);
+            const ccx = QMDD.construct(new X(), 2, [{ index: 0, state: '1' }, { index: 1, state: '1' }], ter);
+
+            expect(QMDD.counterexample(cz, ter)).toBe('101');
+            expect(QMDD.counterexample(cz, ter, true)).toBe('101');
+            expect(QMDD.counterexample(ccx, ter)).toBe('011');
+        });
+    });
+
+    describe('Inner product: ', () =>
+    {
+        test('Zero-edges are orthogonal to everything', () =>
+        {
+            const ter = QMDD.createTerminal(2);
+
+            expect(QMDD.innerProduct({ dest: ter, weight: 0 }, QMDD.groundState(ter))).toBe(Complex.ZERO);
+        });
+
+        test('Overlaps are exact and conjugate the bra', () =>
+        {
+            const ter = QMDD.createTerminal(2);
+            const ground = QMDD.groundState(ter);
+            const plus = QMDD.multiply(QMDD.uncontrolledStep([{ operator: new H(), target: 0 }, { operator: new H(), target: 1 }], ter), ground, ter);
+            const phased = QMDD.multiply(QMDD.construct(new S(), 1, [], ter), plus, ter);
+
+            expect(QMDD.innerProduct(ground, ground)).toBe(Complex.ONE);
+            expect(QMDD.innerProduct(ground, plus)).toBe(new Complex(1, 0, 0, 0, 2).index);
+            // (1 + 1 + j + j)/4 and its conjugate
+            expect(QMDD.innerProduct(plus, phased)).toBe(new Complex(1, 0, 1, 0, 2).index);
+            expect(QMDD.innerProduct(phased, plus)).toBe(new Complex(1, 0, -1, 0, 2).index);
+        });
+    });
+
+    test('Single amplitudes follow one path', () =>
+    {
+        const ter = QMDD.createTerminal(2);
+        const plus = QMDD.multiply(QMDD.construct(new H(), 1, [], ter), QMDD.groundState(ter), ter);
+
+        expect(QMDD.amplitude(plus, '10', 4)).toEqual({ re: 0.7071, im: 0, exact: Complex.get(Complex.A) });
+        expect(QMDD.amplitude(plus, '01', 4)).toEqual({ re: 0, im: 0, exact: Complex.get(Complex.ZERO) });
+    });
+
+    test('Marginals sum over the skipped qubits', () =>
+    {
+        const ter = QMDD.createTerminal(3);
+        const plus = QMDD.multiply(QMDD.uncontrolledStep([{ operator: new H(), target: 0 }, { operator: new H(), target: 2 }], ter), QMDD.groundState(ter), ter);
+
+        expect(QMDD.marginals(plus, [1])).toEqual(new Map([['0', 1]]));
+        expect(QMDD.marginals(plus, [])).toEqual(new Map([['', 1]]));
+        expect([...QMDD.marginals(plus, [1, 2]).keys()]).toEqual(['00', '10']);
+        expect(QMDD.marginals({ dest: ter, weight: 0 }, [0]).size).toBe(0);
+    });
+
+    describe('Partial reduction: ', () =>
+    {
+        test('Ancillas zero the columns they are |1> on', () =>
+        {
+            const ter = QMDD.createTerminal(2);
+            const x = QMDD.reduce(QMDD.construct(new X(), 0, [], ter), [0], ter);
+
+            // the skipped identity on qubit 1 is kept
+            expect([...QMDD.entries(x, ter, 4)]).toEqual([
+                { row: '01', col: '00', re: 1, im: 0 }, 
+                { row: '11', col: '10', re: 1, im: 0 }
+            ]);
+            expect(QMDD.reduce({ dest: ter, weight: 1 }, [0, 1], ter)).toEqual(QMDD.reduce(QMDD.construct(new Z(), 1, [], ter), [0, 1], ter));
+        });
+
+        test('Conjugation keeps the structure', () =>
+        {
+            const ter = QMDD.createTerminal(2);
+            const sh = QMDD.multiply(QMDD.construct(new S(), 1, [], ter), QMDD.construct(new H(), 0, [], ter), ter);
+
+            expect(QMDD.conjugate(sh, ter)).toEqual(QMDD.multiply(QMDD.construct(new S(true), 1, [], ter), QMDD.construct(new H(), 0, [], ter), ter));
+            expect(QMDD.conjugate({ dest: ter, weight: Complex.I }, ter)).toEqual({ dest: ter, weight: Complex.NEG_I });
+        });
+
+        test('Garbage rows are traced out', () =>
+        {
+            // the superoperator of H on one qubit, with its conjugate copy on variable 1
+            const ter = QMDD.createTerminal(2);
+            const h = QMDD.multiply(QMDD.construct(new H(), 0, [], ter), QMDD.construct(new H(), 1, [], ter), ter);
+
+            // Tr(H|i><j|H) is 1 on the diagonal only
+            expect([...QMDD.entries(QMDD.trace(h, [0], ter), ter, 4)]).toEqual([
+                { row: '00', col: '00', re: 1, im: 0 }, 
+                { row: '00', col: '11', re: 1, im: 0 }
+            ]);
+            expect(QMDD.trace(QMDD.trace(h, [0], ter), [], ter, true)).toEqual(QMDD.trace(h, [0], ter));
+            expect([...QMDD.entries(QMDD.trace({ dest: ter, weight: 1 }, [], ter, true), ter, 4)]).toEqual([
+                { row: '00', col: '00', re: 1, im: 0 }, 
+                { row: '11', col: '11', re: 1, im: 0 }
+            ]);
         });
     });
 });
\ No newline at end of file